@@ -1,14 +1,32 @@
 import type { InferWire } from "./wiremap.ts";
 import type { BulkCircuitDef } from "./circuit.ts";
-import type { Hashmap, Context } from "./common.ts";
+import type { AdaptersMap, Context, Hashmap, OutputsMap } from "./common.ts";
 import type { InferUnitValue, IsPrivateUnit } from "./unit.ts";
 import { isCircuit } from "./circuit.ts";
-import { isPrivate, resolveUnit } from "./unit.ts";
+import {
+  getUnitDisposer,
+  getUnitLifetime,
+  isPrivate,
+  resolveUnit,
+} from "./unit.ts";
 import { isPlugin } from "./plug.ts";
+import {
+  BlockNotFoundError,
+  CircularDependencyError,
+  ForbiddenAccessError,
+  OutOfScopeError,
+  PendingUnitError,
+  PluginAdapterError,
+  UnitNotFoundError,
+} from "./errors.ts";
+import { findViolatedRule } from "./rules.ts";
 
 /** A block is a Hashmap with a block tag in '$'. */
-export type BlockDef<T extends Hashmap> = T & {
-  $: BlockTag;
+export type BlockDef<
+  T extends Hashmap,
+  O extends BlockOptions = BlockOptions,
+> = T & {
+  $: BlockTag & O;
 };
 
 /** Map of block names to their block definitions. */
@@ -23,6 +41,7 @@ export type Rehashmap = Record<string, Hashmap>;
  *
  * @template T - The definitions object type extending Hashmap
  * @param defs - Object containing unit definitions and nested blocks
+ * @param options - Options of the block, see {@link BlockOptions}
  * @returns Block definition with added `$` tag marker
  *
  * @example Multiple blocks in one file
@@ -46,23 +65,42 @@ export type Rehashmap = Record<string, Hashmap>;
  * @public
  * @since 1.0.0
  */
-export function defineBlock<T extends Hashmap>(defs: T): BlockDef<T> {
-  if ("$" in defs) return defs as BlockDef<T>;
+export function defineBlock<
+  T extends Hashmap,
+  const O extends BlockOptions = BlockOptions,
+>(defs: T, options?: O): BlockDef<T, O> {
+  if ("$" in defs && !options) return defs as BlockDef<T, O>;
   return {
     ...defs,
-    $: tagBlock(),
-  } as BlockDef<T>;
+    $: isBlock(defs) ? { ...defs.$, ...options } : tagBlock(options),
+  } as BlockDef<T, O>;
 }
 
-interface BlockTag {
+interface BlockTag extends BlockOptions {
   __isBlock: true;
 }
 
+/**
+ * Options of a block, set with `tagBlock` or `defineBlock`.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export interface BlockOptions {
+  /**
+   * Makes the block private to the block it is nested in: only that block and
+   * the blocks nested in it can read it through their wires. Private blocks
+   * are left out of the block paths `InferWire` accepts elsewhere.
+   */
+  isPrivate?: boolean;
+}
+
 /**
  * Creates a block tag marker used to identify objects as blocks in the dependency injection system.
  *
  * This function creates the special `$` marker that `wireUp` uses to identify which objects are blocks.
  *
+ * @param options - Options of the block, see {@link BlockOptions}
  * @returns Block tag object with internal symbol
  *
  * @example File-based block pattern (most common)
@@ -99,13 +137,26 @@ interface BlockTag {
  * export const repository = userRepo;
  * ```
  *
+ * @example Private block
+ * ```typescript
+ * // user/repository.ts - only readable from the user block and its sub-blocks
+ * export const $ = tagBlock({ isPrivate: true });
+ * ```
+ *
  * @see {@link defineBlock} For explicit block definition with multiple blocks per file
  *
  * @public
  * @since 1.0.0
  */
-export function tagBlock(): BlockTag {
-  return { __isBlock: true };
+export function tagBlock<const O extends BlockOptions = BlockOptions>(
+  options?: O,
+): BlockTag & O {
+  return { ...options, __isBlock: true } as BlockTag & O;
+}
+
+/** Checks if a block is tagged as private */
+export function isPrivateBlock(item: unknown): boolean {
+  return isBlock(item) && item.$.isPrivate === true;
 }
 
 export function isBlock(item: unknown): item is BlockDef<Hashmap> {
@@ -165,7 +216,7 @@ function createBlockProxy<
   const blockDef = ctx.circuit[part][blockPath];
   const unitKeys = getBlockUnitKeys(blockDef, local);
 
-  return new Proxy(
+  const proxy = new Proxy(
     {}, // used as a cache for the block
     {
       get: <K extends string>(cachedblock: Hashmap, prop: K) => {
@@ -175,26 +226,90 @@ function createBlockProxy<
 
         if (unitKeys.includes(prop)) {
           const finalKey = blockPath === "" ? prop : `${blockPath}.${prop}`;
+          const isOverride = part === "__hub" && ctx.overrides.has(finalKey);
+          const def = isOverride ? ctx.overrides.get(finalKey) : blockDef[prop];
+          let lifetime = getUnitLifetime(def);
+
+          // units replaced in a scope belong to it
+          if (isOverride && ctx.root && lifetime === "singleton") {
+            lifetime = "scoped";
+          }
+
+          // the app has no scope, its units would capture the scoped ones
+          if (lifetime === "scoped" && !ctx.root) {
+            throw new OutOfScopeError(
+              finalKey,
+              ctx.resolving[ctx.resolving.length - 1],
+              ctx.appRead,
+            );
+          }
+
+          const cache = lifetime === "scoped" ? ctx.scopedUnit : ctx.unit;
+
+          if (cache.has(finalKey)) {
+            const unit = cache.get(finalKey);
+            cachedblock[prop] = unit;
+            return unit;
+          }
 
-          if (ctx.unit.has(finalKey)) {
-            const unit = ctx.unit.get(finalKey);
+          // singletons are created with the wire of the app, so they can't
+          // capture the units of a scope
+          if (lifetime === "singleton" && ctx.root) {
+            const rootBlock = createBlockProxy(blockPath, ctx.root, part, true);
+            const unit = rootBlock[prop];
             cachedblock[prop] = unit;
             return unit;
           }
 
-          const def = blockDef[prop];
+          if (part === "__hub" && ctx.pending.has(finalKey)) {
+            throw new PendingUnitError(finalKey, ctx.resolving.slice());
+          }
+
+          const cycleStart = ctx.resolving.indexOf(finalKey);
+          if (cycleStart !== -1) {
+            throw new CircularDependencyError([
+              ...ctx.resolving.slice(cycleStart),
+              finalKey,
+            ]);
+          }
+
           const wire = ctx.wire.has(blockPath)
             ? ctx.wire.get(blockPath)
             : getBlockWire(blockPath, ctx);
 
-          const unit = resolveUnit(def, wire);
+          ctx.resolving.push(finalKey);
+          let unit;
+
+          try {
+            unit = resolveUnit(def, wire);
+          } finally {
+            ctx.resolving.pop();
+          }
+
+          if (part === "__hub") ctx.trace.created.add(finalKey);
+
+          // transient units are owned by their readers
+          if (lifetime === "transient") return unit;
+
+          registerDisposer(ctx, def, unit);
 
           cachedblock[prop] = unit;
-          ctx.unit.set(finalKey, unit);
+          cache.set(finalKey, unit);
           return unit;
         }
 
-        throw new Error(`Block '${blockPath}' has no unit named '${prop}'`);
+        // block proxies are not thenables, promises can resolve to them
+        if (prop === "then") return undefined;
+
+        const reader = ctx.resolving[ctx.resolving.length - 1];
+        const requestedFrom = reader === undefined ? "" : getUnitBlock(reader);
+
+        throw new UnitNotFoundError(
+          blockPath,
+          prop,
+          requestedFrom,
+          findPluginPath(ctx, requestedFrom),
+        );
       },
 
       ownKeys() {
@@ -211,6 +326,32 @@ function createBlockProxy<
       },
     },
   ) as BlockProxy<C[P][K]>;
+
+  proxyTargets.set(proxy, [{ path: blockPath, input: part === "__inputs" }]);
+
+  return proxy;
+}
+
+/** Block read through a wire */
+interface BlockTarget {
+  path: string;
+  input: boolean;
+}
+
+/**
+ * Blocks of the proxies, to trace the blocks read through the wires. Input
+ * blocks adapted from units of several blocks have all of them.
+ */
+const proxyTargets = new WeakMap<object, BlockTarget[]>();
+
+/** Keeps the teardown of a freshly created unit, if it has one */
+export function registerDisposer<C extends BulkCircuitDef>(
+  ctx: Context<C>,
+  def: unknown,
+  unit: unknown,
+) {
+  const dispose = getUnitDisposer(def, unit);
+  if (dispose) ctx.disposers.push(dispose);
 }
 
 export function getBlockWire<
@@ -222,17 +363,109 @@ export function getBlockWire<
     return ctx.wire.get(blockPath) as I;
   }
 
+  const read = createBlockReader(blockPath, ctx);
+  const wire = (key = "") => {
+    const block = read(key);
+    const targets =
+      key === "."
+        ? [{ path: blockPath, input: false }]
+        : typeof block === "object" && block !== null
+          ? proxyTargets.get(block)
+          : undefined;
+
+    if (!targets) return block;
+
+    targets.forEach((target) => {
+      if (target.input) return;
+
+      const rules = ctx.circuit.__rules ?? [];
+      const rule = findViolatedRule(rules, blockPath, target.path);
+      if (rule) throw new ForbiddenAccessError(blockPath, target.path, rule);
+    });
+
+    targets.forEach((target) => traceRead(ctx, blockPath, target));
+    return block;
+  };
+
+  ctx.wire.set(blockPath, wire);
+
+  return wire as I;
+}
+
+/**
+ * Records the block read through the wire of a block, and the unit of the
+ * block under construction when it was read, if any.
+ */
+function traceRead<C extends BulkCircuitDef>(
+  ctx: Context<C>,
+  blockPath: string,
+  target: BlockTarget,
+) {
+  const reader = ctx.resolving[ctx.resolving.length - 1];
+  const unit =
+    reader !== undefined && getUnitBlock(reader) === blockPath
+      ? reader
+      : undefined;
+  const id = JSON.stringify([blockPath, unit, target.path, target.input]);
+
+  if (ctx.trace.reads.has(id)) return;
+
+  ctx.trace.reads.set(
+    id,
+    unit === undefined
+      ? { from: blockPath, to: target.path, input: target.input }
+      : { from: blockPath, unit, to: target.path, input: target.input },
+  );
+}
+
+/** Returns the block path of a unit path */
+function getUnitBlock(unitPath: string): string {
+  const index = unitPath.lastIndexOf(".");
+  return index === -1 ? "" : unitPath.slice(0, index);
+}
+
+/** Returns the mount path of the plugged circuit of a block, empty for the host */
+function findPluginPath<C extends BulkCircuitDef>(
+  ctx: Context<C>,
+  blockPath: string,
+): string {
   let pluginPath = "";
 
   ctx.circuit.__pluginAdapters.forEach((_, path) => {
-    if (blockPath.startsWith(path)) {
+    if (isWithin(blockPath, path)) {
       if (path.length > pluginPath.length) {
         pluginPath = path;
       }
     }
   });
 
-  const wire = function getBlockProxy(key = "") {
+  return pluginPath;
+}
+
+/**
+ * Creates the function that returns the block proxies read from a block,
+ * without tracing the reads. The wires and the app are built on it.
+ */
+export function createBlockReader<C extends BulkCircuitDef>(
+  blockPath: string,
+  ctx: Context<C>,
+): (key?: string) => unknown {
+  const pluginPath = findPluginPath(ctx, blockPath);
+
+  // relative paths are resolved inside the circuit of the block
+  const localPath = pluginPath
+    ? blockPath.slice(pluginPath.length + 1)
+    : blockPath;
+
+  const read = function getBlockProxy(key = "") {
+    if (isRelativePath(key)) {
+      const path = resolveRelativePath(localPath, key);
+      if (path === undefined) {
+        throw new BlockNotFoundError(key, blockPath, pluginPath);
+      }
+      key = path;
+    }
+
     // Local block resolution, includes private units
     if (key === ".") {
       if (ctx.localProxy.has(blockPath)) {
@@ -245,51 +478,291 @@ export function getBlockWire<
       return localProxy;
     }
 
-    const proxyPath = !pluginPath ? key : `${pluginPath}.${key}`;
-
-    if (ctx.proxy.has(proxyPath)) {
-      return ctx.proxy.get(proxyPath);
-    }
-
-    // hub resolution, uses absolute path of the block
-    if (Object.keys(ctx.circuit.__hub).includes(proxyPath)) {
-      const proxy = createBlockProxy(proxyPath, ctx, "__hub", false);
-      ctx.proxy.set(proxyPath, proxy);
-      return proxy;
+    // the root of a plugged circuit is its mount
+    const proxyPath = exposedPath(
+      ctx.outputs,
+      blockPath,
+      pluginPath && key ? `${pluginPath}.${key}` : pluginPath || key,
+    );
+
+    if (
+      proxyPath !== undefined &&
+      (ctx.proxy.has(proxyPath) || isHubBlock(proxyPath))
+    ) {
+      return readBlock(proxyPath);
     }
 
     // input resolution
     if (pluginPath) {
-      if (Object.keys(ctx.circuit.__hub).includes(key)) {
-        const proxy = createBlockProxy(key, ctx, "__hub", false);
-        ctx.proxy.set(key, proxy);
-        return proxy;
+      // inputs supplied by value to the plugin
+      const inputPath = key ? `${pluginPath}.${key}` : pluginPath;
+
+      if (isInput(inputPath)) {
+        return readInput(inputPath, `${pluginPath}:${key}`);
       }
 
-      const adapter = ctx.adapters.get(pluginPath);
+      const adapter = ctx.adapters.get(pluginPath) ?? {};
+      const target = adapter[key];
 
-      if (!adapter) throw new Error("something very wrong happened");
+      if (typeof target === "object") {
+        return adaptBlock(key, target);
+      }
 
-      const newPath = adapter[key];
+      // inputs without adapter are read from the block of the same name
+      return readTarget(key, target ?? key);
+    } else if (!isPluginInput(key) && isInput(key)) {
+      return readInput(key, key);
+    }
 
-      if (newPath && typeof newPath === "string") {
-        return getBlockProxy(newPath);
-      }
-      return;
-    } else {
-      if (Object.keys(ctx.circuit.__inputs).includes(key)) {
-        const proxy = createBlockProxy(key, ctx, "__inputs", false);
-        ctx.proxy.set(key, proxy);
-        return proxy;
-      }
+    throw new BlockNotFoundError(key, blockPath, pluginPath);
+  };
+
+  /** Checks if a path is in the inputs supplied by value to a plugin */
+  const isPluginInput = (path: string) =>
+    [...ctx.adapters.keys()].some((mount) => isWithin(path, mount));
+
+  const isInput = (path: string) =>
+    Object.keys(ctx.circuit.__inputs).includes(path);
+
+  const isHubBlock = (path: string) =>
+    Object.keys(ctx.circuit.__hub).includes(path);
+
+  const lookup: AdapterLookup = {
+    adapters: ctx.adapters,
+    outputs: ctx.outputs,
+    hasBlock: isHubBlock,
+    hasInput: (mount, key) =>
+      mount
+        ? isInput(key ? `${mount}.${key}` : mount)
+        : !isPluginInput(key) && isInput(key),
+  };
+
+  /** Reads the block an input of the plugin points to */
+  const readTarget = (input: string, target: string) => {
+    const found = resolveAdapterTarget(lookup, pluginPath, target);
+
+    if (!found) {
+      const adapted = Object.keys(ctx.adapters.get(pluginPath) ?? {});
+      throw new PluginAdapterError(pluginPath, input, adapted, target);
+    }
+
+    if (found.kind === "block") return readBlock(found.path);
+
+    if (found.kind === "input") {
+      const cacheKey = found.mount ? `${found.mount}:${found.key}` : found.path;
+      return readInput(found.path, cacheKey);
     }
 
-    throw new Error(`Block "${key}" not found from block "${blockPath}"`);
+    // adapted unit by unit in the circuit the plugin is mounted in
+    return createBlockReader(found.mount, ctx)(found.key);
   };
 
-  ctx.wire.set(blockPath, wire);
+  /** Returns the proxy of a block of the hub, cached by its path */
+  const readBlock = (path: string) => {
+    if (ctx.proxy.has(path)) {
+      return ctx.proxy.get(path);
+    }
 
-  return wire as I;
+    const proxy = createBlockProxy(path, ctx, "__hub", false);
+    ctx.proxy.set(path, proxy);
+    return proxy;
+  };
+
+  /**
+   * Returns the proxy of an input block. The inputs of the plugins are cached
+   * apart from the hub paths, where the host could find them.
+   */
+  const readInput = (path: string, cacheKey: string) => {
+    if (ctx.proxy.has(cacheKey)) {
+      return ctx.proxy.get(cacheKey);
+    }
+
+    const proxy = createBlockProxy(path, ctx, "__inputs", false);
+    ctx.proxy.set(cacheKey, proxy);
+    return proxy;
+  };
+
+  /**
+   * Builds the input block of a nested adapter, reading each unit from the
+   * unit path of the host it is mapped to.
+   */
+  const adaptBlock = (key: string, units: Record<string, string>) => {
+    // hub paths have no colons, the adapted blocks can't clash with them
+    const cacheKey = `${pluginPath}:${key}`;
+
+    if (ctx.proxy.has(cacheKey)) {
+      return ctx.proxy.get(cacheKey);
+    }
+
+    const adapted: Hashmap = {};
+    const targets: BlockTarget[] = [];
+
+    Object.keys(units).forEach((name) => {
+      const unitPath = units[name];
+      const hostPath = getUnitBlock(unitPath);
+      const unitName = hostPath
+        ? unitPath.slice(hostPath.length + 1)
+        : unitPath;
+      const block = readTarget(key, hostPath) as Hashmap;
+
+      targets.push(...(proxyTargets.get(block) ?? []));
+      Object.defineProperty(adapted, name, {
+        enumerable: true,
+        get: () => block[unitName],
+      });
+    });
+
+    proxyTargets.set(adapted, targets);
+    ctx.proxy.set(cacheKey, adapted);
+
+    return adapted;
+  };
+
+  return read;
+}
+
+/** Checks if a wire key is a relative path, like `..`, `../repo` or `./child` */
+export function isRelativePath(key: string): boolean {
+  return key === ".." || key.startsWith("./") || key.startsWith("../");
+}
+
+/**
+ * Resolves a relative path from a block path into a block path. Segments are
+ * separated by `/`, `..` goes to the parent block. Returns `undefined` when the
+ * path goes above the root block.
+ *
+ * @example
+ * resolveRelativePath("user.service", "../repo") // "user.repo"
+ * resolveRelativePath("user", "./service.cache") // "user.service.cache"
+ */
+export function resolveRelativePath(
+  from: string,
+  path: string,
+): string | undefined {
+  const segments = from ? from.split(".") : [];
+
+  for (const part of path.split("/")) {
+    if (part === "..") {
+      if (!segments.length) return;
+      segments.pop();
+    } else if (part !== "." && part !== "") {
+      segments.push(...part.split("."));
+    }
+  }
+
+  return segments.join(".");
+}
+
+/** Checks if a block path is the given parent path or lives under it */
+export function isWithin(path: string, parent: string): boolean {
+  return parent === "" || path === parent || path.startsWith(`${parent}.`);
+}
+
+/**
+ * Translates the block path requested from a block into the internal path it
+ * points to, following the outputs of the plugged circuits the requester lives
+ * out of. Returns `undefined` when the block is not exposed to the requester.
+ */
+function exposedPath(
+  outputsMap: OutputsMap,
+  requester: string,
+  path: string,
+): string | undefined {
+  const mounts = [...outputsMap.keys()].sort((a, b) => a.length - b.length);
+
+  for (const mount of mounts) {
+    if (!isWithin(path, mount) || isWithin(requester, mount)) continue;
+
+    const outputs = outputsMap.get(mount) as Hashmap;
+    const publicPath = path === mount ? "" : path.slice(mount.length + 1);
+
+    if (!(publicPath in outputs)) return;
+
+    const internalPath = outputs[publicPath];
+    path = internalPath === "" ? mount : `${mount}.${internalPath}`;
+  }
+
+  return path;
+}
+
+/** What `resolveAdapterTarget` needs to know of a circuit */
+export interface AdapterLookup {
+  adapters: AdaptersMap;
+  outputs: OutputsMap;
+  /** Checks if a block path is in the hub */
+  hasBlock: (path: string) => boolean;
+  /**
+   * Checks if an input block is supplied by value to the plugin mounted in
+   * `mount`, or is an input of the host when `mount` is empty
+   */
+  hasInput: (mount: string, key: string) => boolean;
+}
+
+/** Block an adapter points to, found by `resolveAdapterTarget` */
+export interface AdapterTarget {
+  /**
+   * A block of the hub, an input block, or an input block the circuit it was
+   * found in adapts unit by unit
+   */
+  kind: "block" | "input" | "units";
+  /** Mount path of the circuit the block was found in, empty for the host */
+  mount: string;
+  /** Path of the block in that circuit */
+  key: string;
+  /** Path of the block in the hub or in the inputs */
+  path: string;
+}
+
+/** Returns the mount path of the plugged circuit a plugin is mounted in, empty for the host */
+export function findParentMount(mounts: Iterable<string>, mount: string) {
+  let parent = "";
+
+  for (const path of mounts) {
+    if (
+      path !== mount &&
+      isWithin(mount, path) &&
+      path.length > parent.length
+    ) {
+      parent = path;
+    }
+  }
+
+  return parent;
+}
+
+/**
+ * Finds the block an adapter of the plugin mounted in `mount` points to.
+ * Targets are relative to the circuit the plugin is mounted in, through the
+ * outputs of the circuits plugged in it. When that circuit is a plugin too,
+ * its inputs are followed to the block they point to.
+ * Returns `undefined` when the target doesn't exist.
+ */
+export function resolveAdapterTarget(
+  lookup: AdapterLookup,
+  mount: string,
+  target: string,
+): AdapterTarget | undefined {
+  const parent = findParentMount(lookup.adapters.keys(), mount);
+  const path = parent && target ? `${parent}.${target}` : parent || target;
+  const blockPath = exposedPath(lookup.outputs, parent, path);
+
+  if (blockPath !== undefined && lookup.hasBlock(blockPath)) {
+    return { kind: "block", mount: parent, key: target, path: blockPath };
+  }
+
+  if (lookup.hasInput(parent, target)) {
+    return { kind: "input", mount: parent, key: target, path };
+  }
+
+  if (!parent) return;
+
+  const next = lookup.adapters.get(parent)?.[target];
+
+  if (typeof next === "object") {
+    return { kind: "units", mount: parent, key: target, path };
+  }
+
+  return resolveAdapterTarget(lookup, parent, next ?? target);
 }
 
 export function mapBlocks<L extends Hashmap>(
@@ -346,6 +819,28 @@ export function mapBlocks<L extends Hashmap>(
   return mapped;
 }
 
+/**
+ * Flattens the inputs of a circuit into input blocks keyed by their path.
+ * Root level units are placed in the "" block.
+ */
+export function mapInputs(inputs: Rehashmap): Rehashmap {
+  const mapped = mapBlocks(
+    Object.fromEntries(
+      Object.keys(inputs)
+        .filter((key) => isHashmap(inputs[key]))
+        .map((key) => [key, defineBlock(inputs[key])]),
+    ),
+  );
+
+  const rootBlock = extractUnits(inputs);
+
+  if (Object.keys(rootBlock).length) {
+    mapped[""] = rootBlock;
+  }
+
+  return mapped;
+}
+
 /**
  * Filter out the blocks from an object of units and blocks
  */
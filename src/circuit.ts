@@ -1,34 +1,71 @@
 import type { BlockDef, Rehashmap } from "./block.ts";
-import type { AdaptersMap, Hashmap } from "./common.ts";
+import type {
+  AdaptersMap,
+  Hashmap,
+  InputsMap,
+  Outputs,
+  OutputsMap,
+} from "./common.ts";
 import type { UnitDef } from "./unit.ts";
+import type { AccessRule } from "./rules.ts";
 
 import type { BulkPlugin } from "./plug.ts";
 import { isPlugin } from "./plug.ts";
-import { defineBlock, isHashmap, mapBlocks, isBlock } from "./block.ts";
-
-// export interface StringHashmap {
-//   [K: string]: string | StringHashmap;
-// }
+import {
+  defineBlock,
+  isHashmap,
+  mapBlocks,
+  mapInputs,
+  isBlock,
+  isPrivateBlock,
+} from "./block.ts";
+import { mountRules } from "./rules.ts";
+import { InvalidOutputError } from "./errors.ts";
 
 export interface BulkCircuitDef extends Hashmap {
   __hub: Rehashmap;
   __inputs: Rehashmap;
   __pluginAdapters: AdaptersMap;
-  // __outputs: StringHashmap;
+  __outputs?: Outputs;
+  __pluginOutputs?: OutputsMap;
+  __pluginInputs?: InputsMap;
+  __mainBlock?: Hashmap;
+  __rules?: AccessRule[];
 }
 
 export type CircuitDef<
   H extends Rehashmap,
   I extends Rehashmap,
-  // O extends StringHashmap,
+  O extends Outputs | undefined = undefined,
 > = {
   __isCircuit: true;
   __hub: H;
   __inputs: I;
   __pluginAdapters: AdaptersMap;
-  // __outputs: O;
+  __outputs: O;
+  __pluginOutputs: OutputsMap;
+  /** Input blocks supplied by value to the plugged circuits */
+  __pluginInputs: InputsMap;
+  /** Source definition of the circuit, used by static checks */
+  __mainBlock: Hashmap;
+  /** Access rules of the circuit and of its plugged circuits */
+  __rules: AccessRule[];
 };
 
+export interface CircuitOptions<O extends Outputs | undefined> {
+  /**
+   * Block paths exposed to the host circuit when this circuit is plugged,
+   * mapping public paths to internal ones. All blocks are exposed when omitted.
+   */
+  outputs?: O;
+  /**
+   * Architecture rules restricting the blocks each block can read through its
+   * wire, enforced when the blocks are read. Rules of plugged circuits apply
+   * to their own blocks.
+   */
+  rules?: AccessRule[];
+}
+
 export type MappedHub<H extends Hashmap> = {
   [K in BlockPaths<H>]: PathValue<H, K & string>;
 };
@@ -73,13 +110,50 @@ type BlockPaths<T extends Hashmap, P extends string = ""> = {
           : T[K] extends BulkCircuitDef
             ? never
             : T[K] extends BulkPlugin
-              ? P extends ""
-                ? `${K}.${string & keyof T[K]["__circuit"]["__hub"]}`
-                : `${P}.${K}.${string & keyof T[K]["__circuit"]["__hub"]}`
+              ? PluginPaths<T[K], P extends "" ? K : `${P}.${K}`>
               : never
     : never;
 }[keyof T];
 
+/**
+ * Paths of the blocks of a plugged circuit, as seen from its host.
+ * Only the declared outputs are visible when the circuit has any.
+ */
+type PluginPaths<
+  T extends BulkPlugin,
+  Mount extends string,
+> = T["__circuit"]["__outputs"] extends Outputs
+  ? {
+      [K in keyof T["__circuit"]["__outputs"]]: K extends ""
+        ? Mount
+        : `${Mount}.${K & string}`;
+    }[keyof T["__circuit"]["__outputs"]]
+  : `${Mount}.${string & keyof T["__circuit"]["__hub"]}`;
+
+/**
+ * Block definition of a public path of a plugged circuit.
+ */
+type PluginPathValue<
+  T extends BulkPlugin,
+  P extends string,
+> = T["__circuit"]["__outputs"] extends Outputs
+  ? OutputValue<T, P>
+  : PathValue<T["__circuit"]["__hub"], P>;
+
+/**
+ * Block definition an output of a plugged circuit points to.
+ */
+type OutputValue<
+  T extends BulkPlugin,
+  P extends string,
+> = T["__circuit"] extends {
+  __outputs: infer O extends Outputs;
+}
+  ? P extends keyof O
+    ? T["__circuit"]["__hub"][O[P]]
+    : never
+  : never;
+
 /**
  * Determines whether an object contains items that are neither blocks nor blockTags.
  * Used to identify blocks that actually contain any unit
@@ -109,7 +183,7 @@ type PathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
     ? T[K] extends BulkCircuitDef
       ? never
       : T[K] extends BulkPlugin
-        ? PathValue<T[K]["__circuit"]["__hub"], Rest>
+        ? PluginPathValue<T[K], Rest>
         : PathValue<T[K], Rest>
     : `$${K}` extends keyof T
       ? PathValue<T[`$${K}`], Rest>
@@ -117,7 +191,9 @@ type PathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
   : P extends keyof T
     ? T[P] extends BlockDef<Hashmap>
       ? T[P]
-      : never
+      : T[P] extends BulkPlugin
+        ? OutputValue<T[P], "">
+        : never
     : `$${P}` extends keyof T
       ? T[`$${P}`] extends Hashmap
         ? T[`$${P}`]
@@ -130,31 +206,196 @@ type IsBlock<T> = T extends { $: { __isBlock: unknown } } ? true : false;
 
 export function defineCircuit<
   const H extends Hashmap,
-  I extends InputsFromHub<H>,
-  // O extends StringHashmap,
+  I extends InputsFromHub<H> | DeclaredInputs<InputsFromHub<H>, Hashmap>,
   E extends EnsureBlock<H>,
-  // C extends CircuitDef<MappedHub<E>, MappedHub<I>, O>,
-  C extends CircuitDef<MappedHub<E>, MappedHub<I>>,
->(mainBlock: H, inputs: I): C {
+  const O extends Outputs | undefined,
+  C extends CircuitDef<MappedHub<E>, MappedHub<InputsOf<I>>, O>,
+>(mainBlock: H, inputs: I, options?: CircuitOptions<O>): C {
   const target = { ...mainBlock, "": defineBlock(mainBlock) };
+  const hub = mapBlocks(target);
+  const outputs = options?.outputs;
+
+  if (outputs) {
+    Object.keys(outputs).forEach((path) => {
+      if (!(outputs[path] in hub)) {
+        throw new InvalidOutputError(path, outputs[path]);
+      }
+    });
+  }
 
-  const adapters = extractPluginAdapters(mainBlock);
+  const plugins = extractPlugins(mainBlock);
 
   return {
     __isCircuit: true,
-    __hub: mapBlocks(target),
-    __inputs: inputs as MappedHub<I>,
-    __pluginAdapters: adapters,
-    // __outputs: options?.outputs || {},
+    __hub: hub,
+    __inputs: inputs as MappedHub<InputsOf<I>>,
+    __pluginAdapters: plugins.adapters,
+    __outputs: outputs,
+    __pluginOutputs: plugins.outputs,
+    __pluginInputs: plugins.inputs,
+    __mainBlock: mainBlock,
+    __rules: [...(options?.rules ?? []), ...plugins.rules],
   } as C;
 }
 
-export function defineInputs<Deps extends Hashmap>(): Deps {
-  return {} as Deps;
+/**
+ * Checks the value of an input unit. Type guards also set the type of the
+ * unit when the inputs are inferred from a descriptor.
+ */
+export type InputValidator<T = unknown> =
+  ((value: unknown) => value is T) | ((value: unknown) => boolean);
+
+/**
+ * Runtime shape of the inputs of a circuit. Input blocks map their units to
+ * `true` or to a validator, units that are objects can be set to `true` to
+ * only check they exist.
+ *
+ * @example
+ * InputsSchema<{ $repo: { save: Save }; config: { port: number } }>
+ * // Returns: {
+ * //   $repo: { save: true | InputValidator };
+ * //   config: true | InputValidator | { port: true | InputValidator };
+ * // }
+ */
+export type InputsSchema<D> = {
+  [K in keyof D]: K extends `$${string}`
+    ? InputsSchema<D[K]>
+    : D[K] extends (...args: never[]) => unknown
+      ? true | InputValidator<D[K]>
+      : D[K] extends object
+        ? true | InputValidator<D[K]> | InputsSchema<D[K]>
+        : true | InputValidator<D[K]>;
+};
+
+/** Key of the type of the inputs declared with `defineInputs`, it only exists in the types */
+declare const inputsType: unique symbol;
+
+/**
+ * Inputs declared with `defineInputs`: the schema at runtime, with the type of
+ * the inputs `D` attached for `defineCircuit`.
+ */
+export type DeclaredInputs<D, S = Record<never, never>> = S & {
+  readonly [inputsType]: D;
+};
+
+/** Type of the inputs of a circuit, from a `defineInputs` declaration or a plain type */
+export type InputsOf<I> = I extends {
+  readonly [inputsType]: infer D extends Hashmap;
+}
+  ? D
+  : I extends Hashmap
+    ? I
+    : never;
+
+/** Runtime descriptor of the inputs of a circuit, the inputs type is inferred from it */
+export interface InputsDescriptor {
+  [key: string]: true | InputValidator | InputsDescriptor;
+}
+
+/**
+ * Infers the inputs described by a descriptor. Units checked by a type guard
+ * get the guarded type, the rest are `unknown`.
+ *
+ * @example
+ * InferInputs<{ $repo: { url: typeof isString; save: true } }>
+ * // Returns: { $repo: { url: string; save: unknown } }
+ */
+export type InferInputs<S> = {
+  -readonly [K in keyof S]: S[K] extends (value: unknown) => value is infer T
+    ? T
+    : S[K] extends true | InputValidator
+      ? unknown
+      : InferInputs<S[K]>;
+};
+
+/**
+ * Declares the inputs a circuit needs from the outside.
+ *
+ * Without arguments the declaration is type only. Pass the schema of the
+ * inputs to let `wireUp` check that every input block and unit is supplied,
+ * and that validated units are valid. The type of the inputs is inferred
+ * from the descriptor when no type argument is given.
+ *
+ * The returned value is the schema, `{}` when there is none. The type of the
+ * inputs is only attached to it for `defineCircuit`.
+ *
+ * @example Type only
+ * ```typescript
+ * const inputs = defineInputs<{
+ *   $repo: { save: (post: Post) => Promise<void> };
+ * }>();
+ * ```
+ *
+ * @example Typed schema
+ * ```typescript
+ * const inputs = defineInputs<{
+ *   $repo: { save: (post: Post) => Promise<void> };
+ * }>({
+ *   $repo: { save: true },
+ * });
+ * ```
+ *
+ * @example Inferred from a descriptor
+ * ```typescript
+ * const isString = (value: unknown): value is string =>
+ *   typeof value === "string";
+ *
+ * const inputs = defineInputs({
+ *   $config: { dbUrl: isString, port: (value) => Number.isInteger(value) },
+ * });
+ * // inputs of the circuit: { $config: { dbUrl: string; port: unknown } }
+ * ```
+ */
+export function defineInputs<const S extends InputsDescriptor>(
+  descriptor: S,
+): DeclaredInputs<InferInputs<S>, S>;
+export function defineInputs<Deps extends Hashmap>(): DeclaredInputs<Deps>;
+export function defineInputs<Deps extends Hashmap>(
+  schema: InputsSchema<Deps>,
+): DeclaredInputs<Deps, InputsSchema<Deps>>;
+export function defineInputs(schema?: Hashmap): Hashmap {
+  return schema ?? {};
 }
 
-// export type InferCircuit<C extends BulkCircuitDef> =
-//   C["__outputs"] extends Rehashmap ? C["__outputs"] : InferWire<C>;
+/** An input unit a circuit needs, as listed by `listInputs` */
+export interface InputRequirement {
+  /** Path of the input block, "" for root units */
+  block: string;
+  unit: string;
+  validator?: InputValidator;
+}
+
+/**
+ * Lists the input units a circuit needs, as declared with a `defineInputs`
+ * schema. Circuits with type only inputs have no listed requirements.
+ *
+ * @example
+ * ```typescript
+ * listInputs(userCircuit);
+ * // [{ block: "repo", unit: "save" }, { block: "config", unit: "url", validator: isString }]
+ * ```
+ */
+export function listInputs(circuit: BulkCircuitDef): InputRequirement[] {
+  const declared = mapInputs(circuit.__inputs);
+  const requirements: InputRequirement[] = [];
+
+  Object.keys(declared).forEach((block) => {
+    Object.keys(declared[block]).forEach((unit) => {
+      const schema = declared[block][unit];
+
+      // root objects are input blocks too, their units are listed
+      if (!block && isHashmap(schema)) return;
+
+      requirements.push(
+        typeof schema === "function"
+          ? { block, unit, validator: schema as InputValidator }
+          : { block, unit },
+      );
+    });
+  });
+
+  return requirements;
+}
 
 export type ExtractPlugins<H extends Hashmap> = {
   [K in keyof H]: H[K] extends BulkPlugin ? H[K] : never;
@@ -168,7 +409,7 @@ export type InputsFromHub<H extends Hashmap> = BlocksDiff<
 /**
  * Transforms `A | B | C` into `A & B & C`
  */
-type UnionToIntersection<U> = (
+export type UnionToIntersection<U> = (
   U extends unknown ? (x: U) => void : never
 ) extends (x: infer I) => void
   ? I
@@ -201,11 +442,39 @@ export function isCircuit(target: unknown): target is BulkCircuitDef {
   return true;
 }
 
-export function extractPluginAdapters<B extends Hashmap>(
+/** What the plugged circuits of a block add to the circuit defining it */
+export interface PluginMounts {
+  /** Adapters of the plugged circuits, keyed by mount path */
+  adapters: AdaptersMap;
+  /** Input blocks supplied by value to the plugged circuits, keyed by mount path */
+  inputs: InputsMap;
+  /**
+   * Outputs of the plugged circuits, keyed by mount path. Circuits without
+   * declared outputs are left out, they expose every block.
+   */
+  outputs: OutputsMap;
+  /**
+   * Access rules of the plugged circuits, with their patterns prefixed by the
+   * mount path, and the rules keeping private blocks inside the block they are
+   * nested in
+   */
+  rules: AccessRule[];
+}
+
+/**
+ * Collects the adapters, inputs, outputs and rules of the circuits plugged in
+ * a block, with the ones of the circuits plugged in them.
+ */
+export function extractPlugins<B extends Hashmap>(
   block: B,
-  adapters = new Map<string, Record<string, string | Record<string, string>>>(),
+  mounts: PluginMounts = {
+    adapters: new Map(),
+    inputs: new Map(),
+    outputs: new Map(),
+    rules: [],
+  },
   parentKey = "",
-) {
+): PluginMounts {
   Object.keys(block).forEach((key) => {
     if (key === "$") return;
 
@@ -214,29 +483,38 @@ export function extractPluginAdapters<B extends Hashmap>(
 
     const isPrefixed = key.startsWith("$");
     const finalKey = isPrefixed ? key.slice(1) : key;
+    const path = parentKey ? `${parentKey}.${finalKey}` : finalKey;
 
     if (isPlugin(item)) {
-      if (parentKey) {
-        adapters.set(`${parentKey}.${finalKey}`, item.__adapter);
-      } else {
-        adapters.set(finalKey, item.__adapter);
-      }
+      const circuit = item.__circuit;
+
+      mounts.adapters.set(path, item.__adapter);
+      if (item.__providedInputs) mounts.inputs.set(path, item.__providedInputs);
+      if (circuit.__outputs) mounts.outputs.set(path, circuit.__outputs);
+      mounts.rules.push(...mountRules(circuit.__rules ?? [], path));
 
-      item.__circuit.__pluginAdapters.forEach((adapter, path) => {
-        if (parentKey) {
-          adapters.set(`${parentKey}.${finalKey}.${path}`, adapter);
-        } else {
-          adapters.set(`${finalKey}.${path}`, adapter);
-        }
+      circuit.__pluginAdapters.forEach((adapter, subPath) => {
+        mounts.adapters.set(`${path}.${subPath}`, adapter);
+      });
+      circuit.__pluginInputs?.forEach((inputs, subPath) => {
+        mounts.inputs.set(`${path}.${subPath}`, inputs);
+      });
+      circuit.__pluginOutputs?.forEach((outputs, subPath) => {
+        mounts.outputs.set(`${path}.${subPath}`, outputs);
       });
 
       return;
     }
 
+    // private blocks of the root block can be read from anywhere
+    if (parentKey && isPrivateBlock(item)) {
+      mounts.rules.push({ to: path, only: parentKey });
+    }
+
     if (isPrefixed || isBlock(item)) {
-      extractPluginAdapters(item, adapters, finalKey);
+      extractPlugins(item, mounts, path);
     }
   });
 
-  return adapters;
+  return mounts;
 }
@@ -1,17 +1,63 @@
 import type { BulkCircuitDef } from "./circuit.ts";
+import type { GraphEdge } from "./inspect.ts";
 
 export type Hashmap = Record<string, unknown>;
 
 export interface Context<Circuit extends BulkCircuitDef> {
   circuit: Circuit;
   unit: Map<string, unknown>;
+  /** Units with scoped lifetime, by unit path */
+  scopedUnit: Map<string, unknown>;
   wire: Map<string, unknown>;
   proxy: Map<string, Hashmap>;
   localProxy: Map<string | null, Hashmap>;
   adapters: AdaptersMap;
+  outputs: OutputsMap;
+  /** Paths of the units under construction, outermost first */
+  resolving: string[];
+  /** Async factory units still being resolved, by unit path */
+  pending: Map<string, Promise<unknown>>;
+  /**
+   * Async factory units waiting for another async unit, by unit path.
+   * Values are the units read on the way, ending with the awaited unit.
+   */
+  waiting: Map<string, string[]>;
+  /** Teardowns of the created units, in creation order */
+  disposers: Array<() => unknown>;
+  /** Set while the app reads a unit of a block it returned */
+  appRead: boolean;
+  /** Context of the app, set in scopes. Singletons are resolved there */
+  root?: Context<Circuit>;
+  /** Unit definitions replacing the ones of the hub, by unit path */
+  overrides: Map<string, unknown>;
+  /** Dependencies observed at runtime, shared with the scopes */
+  trace: Trace;
 }
 
+/** Wire reads and created units of an app */
+export interface Trace {
+  /** Blocks read through the wires, by reader and block read */
+  reads: Map<string, GraphEdge>;
+  /** Paths of the units created */
+  created: Set<string>;
+}
+
+/** Public block paths of a circuit mapped to its internal block paths */
+export type Outputs = Record<string, string>;
+
+/** Outputs of the plugged circuits, keyed by mount path */
+export type OutputsMap = Map<string, Outputs>;
+
+/** Input blocks supplied by value to the plugged circuits, keyed by mount path */
+export type InputsMap = Map<string, Record<string, Hashmap>>;
+
 export type AdaptersMap = Map<
   string,
   Record<string, string | Record<string, string>>
 >;
+
+/** Explicit resource management symbols, when the runtime provides them */
+export const { asyncDispose, dispose } = Symbol as {
+  asyncDispose?: symbol;
+  dispose?: symbol;
+};
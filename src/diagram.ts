@@ -0,0 +1,408 @@
+import type { AdapterLookup } from "./block.ts";
+import type { BulkCircuitDef } from "./circuit.ts";
+import type { CircuitGraph, GraphBlock, GraphPlugin } from "./inspect.ts";
+
+import { isCircuit } from "./circuit.ts";
+import { findParentMount, resolveAdapterTarget } from "./block.ts";
+import { inspect } from "./inspect.ts";
+
+/**
+ * What a diagram can be drawn from: a circuit, its graph, or a wired-up app,
+ * whose diagram includes the dependencies observed so far.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export type DiagramSource =
+  BulkCircuitDef | CircuitGraph | { $graph(): CircuitGraph };
+
+interface Cluster {
+  blocks: GraphBlock[];
+  plugins: GraphPlugin[];
+}
+
+interface Diagram extends Cluster {
+  /** Blocks and plugged circuits in each plugged circuit, by mount path */
+  content: Map<string, Cluster>;
+  /** Paths of the private units */
+  privateUnits: Set<string>;
+  /** Names of the units of the input blocks, by block path */
+  inputs: Map<string, string[]>;
+  edges: DiagramEdge[];
+}
+
+/** A line of the label of a node, private units are in italics */
+interface LabelLine {
+  text: string;
+  italic: boolean;
+}
+
+interface DiagramEdge {
+  /** Block path, or mount path for adapters */
+  from: string;
+  to: string;
+  label?: string;
+  input: boolean;
+  adapter: boolean;
+}
+
+/**
+ * Draws a circuit as a Graphviz DOT digraph.
+ *
+ * Blocks are nodes listing their units, private units in italics. Plugged
+ * circuits are clusters, their adapters dashed edges labeled with the input
+ * they map. Input blocks are parallelograms. The dependencies observed in a
+ * wired-up app are edges labeled with the unit that read, when known.
+ *
+ * @param source - A circuit, its graph, or a wired-up app
+ * @returns The DOT source of the diagram
+ *
+ * @example
+ * ```typescript
+ * await Deno.writeTextFile("docs/circuit.dot", toDot(appCircuit));
+ * // dot -Tsvg docs/circuit.dot -o docs/circuit.svg
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export function toDot(source: DiagramSource): string {
+  const diagram = createDiagram(source);
+  const clusters = new Map<string, string>();
+  const lines = [
+    "digraph circuit {",
+    "  compound=true;",
+    "  node [shape=box];",
+  ];
+
+  const writeBlocks = (blocks: GraphBlock[], indent: string) => {
+    blocks.forEach((block) => {
+      const label = dotLabel(blockLabel(diagram, block));
+      lines.push(`${indent}${dotId(block.path)} [label=<${label}>];`);
+    });
+  };
+
+  const writePlugins = (plugins: GraphPlugin[], indent: string) => {
+    plugins.forEach((plugin) => {
+      const cluster = `cluster_${clusters.size}`;
+      const content = diagram.content.get(plugin.path);
+
+      clusters.set(plugin.path, cluster);
+      lines.push(`${indent}subgraph ${cluster} {`);
+      lines.push(`${indent}  label=${dotId(plugin.path)};`);
+      lines.push(`${indent}  style=dashed;`);
+      writeBlocks(content?.blocks ?? [], `${indent}  `);
+      writePlugins(content?.plugins ?? [], `${indent}  `);
+      lines.push(`${indent}}`);
+    });
+  };
+
+  writeBlocks(diagram.blocks, "  ");
+  writePlugins(diagram.plugins, "  ");
+
+  diagram.inputs.forEach((units, block) => {
+    const label = dotLabel(inputLabel(block, units));
+    lines.push(
+      `  ${dotId(`input:${block}`)} [label=<${label}>, shape=parallelogram];`,
+    );
+  });
+
+  diagram.edges.forEach((edge) => {
+    const attributes: string[] = [];
+    let from = edge.from;
+
+    if (edge.label) attributes.push(`label=${dotId(edge.label)}`);
+
+    if (edge.adapter) {
+      // edges start at a block of the cluster, clipped to its border
+      const node = findClusterNode(diagram, edge.from);
+      if (node !== undefined) {
+        from = node;
+        attributes.push(`ltail=${clusters.get(edge.from)}`);
+      }
+      attributes.push("style=dashed");
+    }
+
+    const to = edge.input ? `input:${edge.to}` : edge.to;
+    const suffix = attributes.length ? ` [${attributes.join(", ")}]` : "";
+
+    lines.push(`  ${dotId(from)} -> ${dotId(to)}${suffix};`);
+  });
+
+  lines.push("}");
+
+  return lines.join("\n");
+}
+
+/**
+ * Draws a circuit as a Mermaid flowchart, with the same elements as `toDot`.
+ * Plugged circuits are subgraphs.
+ *
+ * @param source - A circuit, its graph, or a wired-up app
+ * @returns The Mermaid source of the diagram
+ *
+ * @example
+ * ```typescript
+ * const diagram = toMermaid(app);
+ * await Deno.writeTextFile("docs/architecture.md", "```mermaid\n" + diagram + "\n```\n");
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export function toMermaid(source: DiagramSource): string {
+  const diagram = createDiagram(source);
+  const ids = new Map<string, string>();
+  const lines = ["flowchart LR"];
+
+  const getId = (key: string, prefix: string) => {
+    if (!ids.has(key)) ids.set(key, `${prefix}${ids.size}`);
+    return ids.get(key) as string;
+  };
+
+  const writeBlocks = (blocks: GraphBlock[], indent: string) => {
+    blocks.forEach((block) => {
+      const label = mermaidLabel(blockLabel(diagram, block));
+      lines.push(`${indent}${getId(block.path, "b")}["${label}"]`);
+    });
+  };
+
+  const writePlugins = (plugins: GraphPlugin[], indent: string) => {
+    plugins.forEach((plugin) => {
+      const content = diagram.content.get(plugin.path);
+      const id = getId(`plugin:${plugin.path}`, "p");
+
+      lines.push(`${indent}subgraph ${id} ["${mermaidEscape(plugin.path)}"]`);
+      writeBlocks(content?.blocks ?? [], `${indent}  `);
+      writePlugins(content?.plugins ?? [], `${indent}  `);
+      lines.push(`${indent}end`);
+    });
+  };
+
+  writeBlocks(diagram.blocks, "  ");
+  writePlugins(diagram.plugins, "  ");
+
+  diagram.inputs.forEach((units, block) => {
+    const label = mermaidLabel(inputLabel(block, units));
+    lines.push(`  ${getId(`input:${block}`, "i")}[/"${label}"/]`);
+  });
+
+  diagram.edges.forEach((edge) => {
+    const from = getId(edge.adapter ? `plugin:${edge.from}` : edge.from, "b");
+    const to = getId(edge.input ? `input:${edge.to}` : edge.to, "b");
+    const arrow = edge.adapter ? "-.->" : "-->";
+    const label = edge.label ? `|"${mermaidEscape(edge.label)}"|` : "";
+
+    lines.push(`  ${from} ${arrow}${label} ${to}`);
+  });
+
+  return lines.join("\n");
+}
+
+function createDiagram(source: DiagramSource): Diagram {
+  const graph = getGraph(source);
+  const mounts = graph.plugins.map((plugin) => plugin.path);
+  const edges: DiagramEdge[] = [];
+  const blockPaths = new Set(graph.blocks.map((block) => block.path));
+  const inputBlocks = new Set(graph.inputs.map((input) => input.block));
+  const lookup: AdapterLookup = {
+    adapters: new Map(
+      graph.plugins.map((plugin) => [plugin.path, plugin.adapters]),
+    ),
+    // the graph lists the circuits without outputs with empty ones
+    outputs: new Map(
+      graph.plugins
+        .filter((plugin) => Object.keys(plugin.outputs).length)
+        .map((plugin) => [plugin.path, plugin.outputs]),
+    ),
+    hasBlock: (path) => blockPaths.has(path),
+    hasInput: (mount, key) => !mount && inputBlocks.has(key),
+  };
+
+  /** Adapter edge to the block a target points to, unknown ones included */
+  const targetEdge = (mount: string, target: string, label: string) => {
+    const found = resolveAdapterTarget(lookup, mount, target);
+
+    if (!found) {
+      const parent = findParentMount(mounts, mount);
+      const path = parent && target ? `${parent}.${target}` : parent || target;
+      return adapterEdge(mount, path, label, false);
+    }
+
+    return adapterEdge(mount, found.path, label, found.kind === "input");
+  };
+
+  graph.plugins.forEach((plugin) => {
+    Object.keys(plugin.adapters).forEach((input) => {
+      const target = plugin.adapters[input];
+
+      if (typeof target === "string") {
+        edges.push(targetEdge(plugin.path, target, input));
+        return;
+      }
+
+      Object.keys(target).forEach((unit) => {
+        const unitPath = target[unit];
+        const dot = unitPath.lastIndexOf(".");
+        const block = dot === -1 ? "" : unitPath.slice(0, dot);
+        edges.push(targetEdge(plugin.path, block, `${input}.${unit}`));
+      });
+    });
+  });
+
+  graph.edges.forEach((edge) => {
+    // reads of the local block are not dependencies between blocks
+    if (edge.from === edge.to && !edge.input) return;
+
+    edges.push({
+      from: edge.from,
+      to: edge.to,
+      label: edge.unit?.slice(edge.unit.lastIndexOf(".") + 1),
+      input: edge.input,
+      adapter: false,
+    });
+  });
+
+  const referenced = new Set<string>();
+
+  edges.forEach((edge) => {
+    if (!edge.adapter) referenced.add(edge.from);
+    if (!edge.input) referenced.add(edge.to);
+  });
+
+  const inputs = new Map<string, string[]>();
+
+  graph.inputs.forEach(({ block, unit }) => {
+    inputs.set(block, [...(inputs.get(block) ?? []), unit]);
+  });
+
+  edges.forEach((edge) => {
+    if (edge.input && !inputs.has(edge.to)) inputs.set(edge.to, []);
+  });
+
+  const diagram: Diagram = {
+    blocks: [],
+    plugins: [],
+    content: new Map(),
+    privateUnits: new Set(
+      graph.units.filter((unit) => unit.isPrivate).map((unit) => unit.path),
+    ),
+    inputs,
+    edges,
+  };
+
+  const getContent = (mount: string): Cluster => {
+    if (!diagram.content.has(mount)) {
+      diagram.content.set(mount, { blocks: [], plugins: [] });
+    }
+    return diagram.content.get(mount) as Cluster;
+  };
+
+  graph.blocks.forEach((block) => {
+    // empty blocks only show up when they are read
+    if (block.units.length || referenced.has(block.path)) {
+      const blocks =
+        block.plugin === undefined
+          ? diagram.blocks
+          : getContent(block.plugin).blocks;
+      blocks.push(block);
+    }
+
+    referenced.delete(block.path);
+  });
+
+  // blocks out of the circuit, like the unknown targets of adapters
+  referenced.forEach((path) => diagram.blocks.push({ path, units: [] }));
+
+  graph.plugins.forEach((plugin) => {
+    const parent = findParentMount(mounts, plugin.path);
+    const siblings = parent ? getContent(parent).plugins : diagram.plugins;
+    siblings.push(plugin);
+  });
+
+  return diagram;
+}
+
+function getGraph(source: DiagramSource): CircuitGraph {
+  if ("$graph" in source && typeof source.$graph === "function") {
+    return source.$graph();
+  }
+
+  if (isCircuit(source)) return inspect(source);
+
+  return source as CircuitGraph;
+}
+
+function adapterEdge(
+  from: string,
+  to: string,
+  label: string,
+  input: boolean,
+): DiagramEdge {
+  return { from, to, label, input, adapter: true };
+}
+
+/** Returns the path of the first block drawn in the cluster of a plugin */
+function findClusterNode(diagram: Diagram, mount: string): string | undefined {
+  const content = diagram.content.get(mount);
+  if (!content) return;
+  if (content.blocks.length) return content.blocks[0].path;
+
+  for (const plugin of content.plugins) {
+    const node = findClusterNode(diagram, plugin.path);
+    if (node !== undefined) return node;
+  }
+}
+
+function blockLabel(diagram: Diagram, block: GraphBlock): LabelLine[] {
+  return [
+    { text: block.path || "(root)", italic: false },
+    ...block.units.map((name) => ({
+      text: name,
+      italic: diagram.privateUnits.has(
+        block.path ? `${block.path}.${name}` : name,
+      ),
+    })),
+  ];
+}
+
+function inputLabel(block: string, units: string[]): LabelLine[] {
+  return [block || "(root)", ...units].map((text) => ({ text, italic: false }));
+}
+
+/** Graphviz HTML-like label, the first line is the title */
+function dotLabel(lines: LabelLine[]): string {
+  return lines
+    .map(({ text, italic }, index) => {
+      const escaped = htmlEscape(text);
+      if (index === 0) return `<B>${escaped}</B>`;
+      return italic ? `<I>${escaped}</I>` : escaped;
+    })
+    .join("<BR/>");
+}
+
+/** Mermaid label, the first line is the title */
+function mermaidLabel(lines: LabelLine[]): string {
+  return lines
+    .map(({ text, italic }, index) => {
+      const escaped = mermaidEscape(text);
+      if (index === 0) return `<b>${escaped}</b>`;
+      return italic ? `<i>${escaped}</i>` : escaped;
+    })
+    .join("<br/>");
+}
+
+function dotId(text: string): string {
+  return `"${text.replace(/["\\]/g, (char) => `\\${char}`)}"`;
+}
+
+function htmlEscape(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function mermaidEscape(text: string): string {
+  return text.replace(/"/g, "#quot;");
+}
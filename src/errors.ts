@@ -0,0 +1,478 @@
+import type { AccessRule } from "./rules.ts";
+import { describeRule } from "./rules.ts";
+
+/**
+ * Base class of the errors thrown by wiremap when wiring up or reading blocks,
+ * to tell them apart from the errors thrown by the units.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   app("user.service").addUser("john");
+ * } catch (error) {
+ *   if (error instanceof WiremapError) logger.error(error.name, error);
+ *   else throw error;
+ * }
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class WiremapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WiremapError";
+  }
+}
+
+/**
+ * Thrown when a unit depends on itself while it is being created, directly or
+ * through other units. `chain` lists the unit paths from the unit back to itself.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   app("user.service").addUser;
+ * } catch (error) {
+ *   if (error instanceof CircularDependencyError) {
+ *     console.log(error.chain);
+ *     // ["user.service.addUser", "post.service.list", "user.service.addUser"]
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class CircularDependencyError extends WiremapError {
+  constructor(public chain: string[]) {
+    super(`Circular dependency detected: ${chain.join(" -> ")}`);
+    this.name = "CircularDependencyError";
+  }
+}
+
+/**
+ * Thrown when an async unit is read while `wireUp` is still resolving it.
+ * `wireUp` catches it in the async factories that read the unit through their
+ * wire: they wait for the unit and run again.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class PendingUnitError extends WiremapError {
+  constructor(
+    public unitPath: string,
+    /** Units under construction when the unit was read */
+    public resolving: string[],
+  ) {
+    super(`Async unit "${unitPath}" was read before it was resolved`);
+    this.name = "PendingUnitError";
+  }
+}
+
+/**
+ * Thrown when a scoped unit is read out of a scope: from the app, or by a unit
+ * created with the wire of the app, like a singleton, which would capture it.
+ *
+ * @example
+ * ```typescript
+ * // audit is a singleton reading w().currentUser, a scoped unit
+ * app.createScope()().audit;
+ * // OutOfScopeError: Scoped unit "currentUser" was read out of a scope by unit "audit", units created by the app can't capture the units of a scope
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class OutOfScopeError extends WiremapError {
+  constructor(
+    public unitPath: string,
+    /** Unit under construction that read it, if any */
+    public readBy?: string,
+    /** Whether the app read it, otherwise a singleton did once created */
+    readByApp = false,
+  ) {
+    super(
+      readBy !== undefined
+        ? `Scoped unit "${unitPath}" was read out of a scope by unit "${readBy}", units created by the app can't capture the units of a scope`
+        : readByApp
+          ? `Scoped unit "${unitPath}" was read out of a scope, read it from a scope created with app.createScope()`
+          : `Scoped unit "${unitPath}" was read out of a scope by a singleton, singletons can't read the units of a scope`,
+    );
+    this.name = "OutOfScopeError";
+  }
+}
+
+/** An input block, or a unit of an input block, that was not supplied */
+export interface MissingInput {
+  block: string;
+  unit?: string;
+}
+
+/**
+ * Thrown by `wireUp` when the inputs don't match the schema declared with
+ * `defineInputs`. `missing` lists every input block and unit not supplied.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class MissingInputsError extends WiremapError {
+  constructor(public missing: MissingInput[]) {
+    super(`Missing inputs: ${missing.map(describeInput).join(", ")}`);
+    this.name = "MissingInputsError";
+  }
+}
+
+/** A supplied input unit rejected by its validator */
+export interface InvalidInput {
+  block: string;
+  unit: string;
+}
+
+/**
+ * Thrown by `wireUp` when supplied input units don't pass the validators
+ * declared with `defineInputs`. `invalid` lists every rejected unit.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class InvalidInputsError extends WiremapError {
+  constructor(public invalid: InvalidInput[]) {
+    super(`Invalid inputs: ${invalid.map(describeInput).join(", ")}`);
+    this.name = "InvalidInputsError";
+  }
+}
+
+function describeInput({ block, unit }: MissingInput | InvalidInput): string {
+  if (unit === undefined) return `block "${block}"`;
+  return `unit "${block ? `${block}.${unit}` : unit}"`;
+}
+
+/**
+ * Thrown when a block reads through its wire a block that an access rule of
+ * the circuit forbids it to read.
+ *
+ * @example
+ * ```typescript
+ * // with the rule { from: "domain", deny: "infra" }
+ * app("domain.user").register("john");
+ * // ForbiddenAccessError: Block "domain.user" can't read block "infra.db": "domain" can't read "infra"
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class ForbiddenAccessError extends WiremapError {
+  constructor(
+    /** Path of the block that read */
+    public from: string,
+    /** Path of the block read */
+    public to: string,
+    public rule: AccessRule,
+  ) {
+    super(`Block "${from}" can't read block "${to}": ${describeRule(rule)}`);
+    this.name = "ForbiddenAccessError";
+  }
+}
+
+/**
+ * Thrown when a plugged circuit reads an input that its adapter doesn't
+ * resolve: the input has no adapter and the host has no block with its name,
+ * or the adapter points to a block the host doesn't have.
+ *
+ * @example
+ * ```typescript
+ * // plug(userCircuit, { repository: "database" }) with no "logger" in the host
+ * app("user.service").log("hi");
+ * // PluginAdapterError: Input "logger" of plugin "user" has no adapter and the host has no block "logger" (adapted inputs: "repository")
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class PluginAdapterError extends WiremapError {
+  constructor(
+    /** Mount path of the plugged circuit */
+    public mount: string,
+    /** Input the plugged circuit asked for */
+    public input: string,
+    /** Inputs of the plugged circuit with an adapter */
+    public adapted: string[],
+    /** Path of the host block the input was resolved to */
+    public target: string,
+  ) {
+    super(describeAdapterProblem(mount, input, adapted, target));
+    this.name = "PluginAdapterError";
+  }
+}
+
+/**
+ * Thrown when a block reads through its wire a block that doesn't exist, or a
+ * relative path that goes above the root of its circuit.
+ *
+ * @example
+ * ```typescript
+ * app("user.service").getAuthor();
+ * // BlockNotFoundError: Block "post.service" not found from block "user.service"
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class BlockNotFoundError extends WiremapError {
+  constructor(
+    /** Path of the block read, as given to the wire */
+    public blockPath: string,
+    /** Path of the block that read */
+    public requestedFrom: string,
+    /** Mount path of the plugged circuit that read, empty for the host */
+    public circuit: string,
+  ) {
+    super(`Block "${blockPath}" not found from block "${requestedFrom}"`);
+    this.name = "BlockNotFoundError";
+  }
+}
+
+/**
+ * Thrown when a block proxy is asked for a unit the block doesn't have, or a
+ * private unit from outside the block.
+ *
+ * @example
+ * ```typescript
+ * app("user.service").removeUser;
+ * // UnitNotFoundError: Block 'user.service' has no unit named 'removeUser'
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class UnitNotFoundError extends WiremapError {
+  constructor(
+    public blockPath: string,
+    public unitName: string,
+    /**
+     * Path of the block of the unit under construction that read, empty when
+     * no unit was under construction, like the reads of the app
+     */
+    public requestedFrom: string,
+    /** Mount path of the plugged circuit that read, empty for the host */
+    public circuit: string,
+  ) {
+    super(`Block '${blockPath}' has no unit named '${unitName}'`);
+    this.name = "UnitNotFoundError";
+  }
+}
+
+/**
+ * Thrown by `defineUnit` when a bound, factory or async factory unit is not
+ * defined with a function.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class InvalidUnitDefinitionError extends WiremapError {
+  constructor(
+    /** Kind of unit given in the `is` option */
+    public kind: string,
+    /** The definition that is not a function */
+    public definition: unknown,
+  ) {
+    super("Wrong unit definition value");
+    this.name = "InvalidUnitDefinitionError";
+  }
+}
+
+/**
+ * Thrown by `defineCircuit` when an output of the circuit points to a block the
+ * circuit doesn't have.
+ *
+ * @example
+ * ```typescript
+ * defineCircuit(hub, {}, { outputs: { api: "user.nope" } });
+ * // InvalidOutputError: Output "api" points to unknown block "user.nope"
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class InvalidOutputError extends WiremapError {
+  constructor(
+    /** Public path of the output */
+    public output: string,
+    /** Path of the block of the circuit it points to */
+    public blockPath: string,
+  ) {
+    super(`Output "${output}" points to unknown block "${blockPath}"`);
+    this.name = "InvalidOutputError";
+  }
+}
+
+/**
+ * Thrown by `wireUp` and `app.createScope` when an override doesn't replace a
+ * unit of the hub, or replaces a unit with an async factory out of `wireUp`.
+ *
+ * @example
+ * ```typescript
+ * app.createScope({ user: { nope: 1 } });
+ * // InvalidOverrideError: Override "user.nope" doesn't match any unit
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class InvalidOverrideError extends WiremapError {
+  constructor(
+    public unitPath: string,
+    /** `unknownUnit` when no unit matches, `asyncFactory` when it can't be one */
+    public problem: "unknownUnit" | "asyncFactory",
+  ) {
+    super(
+      problem === "unknownUnit"
+        ? `Override "${unitPath}" doesn't match any unit`
+        : `Override "${unitPath}" can't be an async factory, it only replaces async factories when wiring up`,
+    );
+    this.name = "InvalidOverrideError";
+  }
+}
+
+/**
+ * Thrown by `wireUp` when its `concurrency` option is not a number of async
+ * factories, at least 1.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class InvalidConcurrencyError extends WiremapError {
+  constructor(public concurrency: number) {
+    super(`Wrong concurrency value: ${concurrency}`);
+    this.name = "InvalidConcurrencyError";
+  }
+}
+
+/**
+ * Rejects `wireUp` when an async factory fails. `reason` is what the factory
+ * threw. Errors of wiremap, like a `CircularDependencyError`, are not wrapped.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await wireUp(circuit);
+ * } catch (error) {
+ *   if (error instanceof AsyncResolutionError) {
+ *     console.log(error.unitPath); // "infra.db"
+ *     console.log(error.reason); // Error: connection refused
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class AsyncResolutionError extends WiremapError {
+  constructor(
+    public unitPath: string,
+    /** What the factory threw or rejected with */
+    public reason: unknown,
+  ) {
+    super(`Async factory "${unitPath}" failed: ${describeReason(reason)}`);
+    this.name = "AsyncResolutionError";
+  }
+}
+
+/**
+ * Rejects `app.shutdown()` and `scope.dispose()` when disposers fail. Every
+ * disposer runs, `errors` lists what the failed ones threw, in disposal order.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await app.shutdown();
+ * } catch (error) {
+ *   if (error instanceof DisposeError) {
+ *     console.log(error.errors); // [Error: connection already closed]
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class DisposeError extends WiremapError {
+  constructor(
+    /** What the failed disposers threw or rejected with */
+    public errors: unknown[],
+  ) {
+    super(`Failed to dispose ${errors.length} unit(s)`);
+    this.name = "DisposeError";
+  }
+}
+
+/**
+ * Thrown by `mockCircuit` when a fake block doesn't replace a block of the
+ * circuit.
+ *
+ * @example
+ * ```typescript
+ * mockCircuit(circuit, { fakes: { nope: {} } });
+ * // UnknownFakeError: Fake block "nope" doesn't match any block
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class UnknownFakeError extends WiremapError {
+  constructor(public blockPath: string) {
+    super(`Fake block "${blockPath}" doesn't match any block`);
+    this.name = "UnknownFakeError";
+  }
+}
+
+/**
+ * Thrown by the strict mocks of `mockUnit` when the unit under test reads a
+ * block or a unit missing from the fake blocks. `unit` is the unit of the fake
+ * block read, when the block itself is faked. `mockBlock` has no strict mode,
+ * the blocks missing from its fakes throw `BlockNotFoundError`.
+ *
+ * @example
+ * ```typescript
+ * mockUnit(getUser, { repo: {} }, { strict: true });
+ * // MissingFakeError: Fake block "repo" has no unit named "find", read by unit "getUser"
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export class MissingFakeError extends WiremapError {
+  constructor(
+    /** Name of the unit under test */
+    public unitName: string,
+    public blockPath: string,
+    public unit?: string,
+  ) {
+    super(
+      unit === undefined
+        ? `Unit "${unitName}" reads block "${blockPath}", which is not in the fake blocks`
+        : `Fake block "${blockPath}" has no unit named "${unit}", read by unit "${unitName}"`,
+    );
+    this.name = "MissingFakeError";
+  }
+}
+
+function describeReason(reason: unknown): string {
+  return reason instanceof Error ? reason.message : String(reason);
+}
+
+/** Describes an input of a plugged circuit that doesn't resolve to a host block */
+export function describeAdapterProblem(
+  mount: string,
+  input: string,
+  adapted: string[],
+  target: string,
+): string {
+  if (adapted.includes(input)) {
+    return `Input "${input}" of plugin "${mount}" points to unknown block "${target}"`;
+  }
+
+  const inputs = adapted.map((key) => `"${key}"`).join(", ") || "none";
+  return `Input "${input}" of plugin "${mount}" has no adapter and the host has no block "${target}" (adapted inputs: ${inputs})`;
+}
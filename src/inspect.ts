@@ -0,0 +1,171 @@
+import type { Hashmap, Outputs, Trace } from "./common.ts";
+import type { BulkCircuitDef, InputRequirement } from "./circuit.ts";
+import type { Lifetime, UnitKind } from "./unit.ts";
+
+import { listInputs } from "./circuit.ts";
+import { getBlockUnitKeys, isWithin } from "./block.ts";
+import { getUnitKind, getUnitLifetime, isPrivate } from "./unit.ts";
+
+/**
+ * A block of the circuit graph.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export interface GraphBlock {
+  path: string;
+  /** Names of the units of the block, private ones included */
+  units: string[];
+  /** Mount path of the plugged circuit the block belongs to */
+  plugin?: string;
+}
+
+/**
+ * A unit of the circuit graph.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export interface GraphUnit {
+  path: string;
+  block: string;
+  name: string;
+  kind: UnitKind;
+  lifetime: Lifetime;
+  isPrivate: boolean;
+  /**
+   * Whether the unit was created, so the blocks it read while being created
+   * are in the edges. Bound units read their blocks when called, their edges
+   * show up as they are called.
+   */
+  traced: boolean;
+}
+
+/**
+ * A plugged circuit of the circuit graph.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export interface GraphPlugin {
+  /** Mount path of the plugged circuit */
+  path: string;
+  /** Inputs of the plugged circuit mapped to the blocks of the host */
+  adapters: Record<string, string | Record<string, string>>;
+  /** Public block paths of the plugged circuit mapped to its internal ones */
+  outputs: Outputs;
+}
+
+/**
+ * A block read through the wire of another block, observed at runtime.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export interface GraphEdge {
+  /** Path of the block that read */
+  from: string;
+  /**
+   * Path of the unit of `from` under construction when it read. Missing for
+   * reads made afterwards, like the ones of bound units.
+   */
+  unit?: string;
+  /** Path of the block read */
+  to: string;
+  /** Whether the block read is an input block */
+  input: boolean;
+}
+
+/**
+ * Structure of a circuit: its blocks, units, plugged circuits and inputs, and
+ * the dependencies between blocks observed at runtime.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export interface CircuitGraph {
+  blocks: GraphBlock[];
+  units: GraphUnit[];
+  plugins: GraphPlugin[];
+  inputs: InputRequirement[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Returns the structure of a circuit as a graph. Dependencies are only known
+ * by running the units, so the graph of a circuit has no edges. Use
+ * `app.$graph()` to get the edges observed in a wired-up app.
+ *
+ * @param circuit - The circuit to inspect
+ * @returns The graph of the circuit
+ *
+ * @example
+ * ```typescript
+ * const graph = inspect(appCircuit);
+ *
+ * graph.blocks.map((block) => block.path);
+ * // ["", "user", "user.service", "post", "post.service"]
+ *
+ * graph.units.filter((unit) => unit.kind === "asyncFactory");
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export function inspect(circuit: BulkCircuitDef): CircuitGraph {
+  return buildGraph(circuit, { reads: new Map(), created: new Set() });
+}
+
+/** Builds the graph of a circuit with the dependencies traced at runtime */
+export function buildGraph(
+  circuit: BulkCircuitDef,
+  trace: Trace,
+): CircuitGraph {
+  const hub = circuit.__hub as Record<string, Hashmap>;
+  const mounts = [...circuit.__pluginAdapters.keys()];
+  const blocks: GraphBlock[] = [];
+  const units: GraphUnit[] = [];
+
+  Object.keys(hub).forEach((path) => {
+    const block = hub[path];
+    const names = getBlockUnitKeys(block, true);
+    const plugin = mounts
+      .filter((mount) => isWithin(path, mount))
+      .sort((a, b) => b.length - a.length)[0];
+
+    blocks.push(
+      plugin === undefined
+        ? { path, units: names }
+        : { path, units: names, plugin },
+    );
+
+    names.forEach((name) => {
+      const unitPath = path ? `${path}.${name}` : name;
+      const def = block[name];
+
+      units.push({
+        path: unitPath,
+        block: path,
+        name,
+        kind: getUnitKind(def),
+        lifetime: getUnitLifetime(def),
+        isPrivate: isPrivate(def),
+        traced: trace.created.has(unitPath),
+      });
+    });
+  });
+
+  const plugins = mounts.map((path) => ({
+    path,
+    adapters: circuit.__pluginAdapters.get(path) ?? {},
+    outputs: circuit.__pluginOutputs?.get(path) ?? {},
+  }));
+
+  return {
+    blocks,
+    units,
+    plugins,
+    inputs: listInputs(circuit),
+    edges: [...trace.reads.values()],
+  };
+}
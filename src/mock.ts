@@ -1,5 +1,14 @@
 import type { Hashmap } from "./common.ts";
-import type { InferUnitValue, IsAsyncFactory } from "./unit.ts";
+import type {
+  BoundUnitOptions,
+  InferUnitValue,
+  IsAsyncFactory,
+  UnitDef,
+} from "./unit.ts";
+import type { InferBlockValue, Rehashmap } from "./block.ts";
+import type { BulkCircuitDef } from "./circuit.ts";
+import type { InferWire, WiredUp, WireBlocks } from "./wire-up.ts";
+import type { SpyWire } from "./spy.ts";
 
 import {
   isAsyncFactoryDef,
@@ -10,6 +19,9 @@ import {
   isFactoryFunc,
   isUnitDef,
 } from "./unit.ts";
+import { extractUnits, isRelativePath, resolveRelativePath } from "./block.ts";
+import { wireUp } from "./wire-up.ts";
+import { MissingFakeError, UnknownFakeError } from "./errors.ts";
 
 function fakeWire<F extends Hashmap>(fakeBlocks: F) {
   return function <P extends "" | keyof F>(blockPath = "" as P) {
@@ -17,6 +29,97 @@ function fakeWire<F extends Hashmap>(fakeBlocks: F) {
   };
 }
 
+/**
+ * Options of `mockUnit`.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export interface MockUnitOptions {
+  /**
+   * Throws when the unit reads a block missing from the fake blocks, or a unit
+   * missing from a fake block, instead of returning `undefined`.
+   */
+  strict?: boolean;
+  /** Name of the unit under test in the errors, its function name by default */
+  name?: string;
+}
+
+type FakeWire = (blockPath?: string) => unknown;
+
+/** Wraps a fake wire to fail on blocks and units missing from the fakes */
+function strictWire(wire: FakeWire, unitName: string): FakeWire {
+  const blocks = new Map<string, unknown>();
+
+  return (blockPath = "") => {
+    const block = wire(blockPath);
+
+    if (block === undefined) {
+      throw new MissingFakeError(unitName, blockPath);
+    }
+
+    if (typeof block !== "object" || block === null) return block;
+
+    if (!blocks.has(blockPath)) {
+      const proxy = new Proxy(block, {
+        get(target, prop) {
+          if (typeof prop !== "string" || prop in target) {
+            return Reflect.get(target, prop);
+          }
+
+          // fake blocks are not thenables, promises can resolve to them
+          if (prop === "then") return undefined;
+
+          throw new MissingFakeError(unitName, blockPath, prop);
+        },
+      });
+
+      blocks.set(blockPath, proxy);
+    }
+
+    return blocks.get(blockPath);
+  };
+}
+
+function getUnitName(def: unknown): string {
+  const unit = isUnitDef(def) ? def.__unit : def;
+  if (typeof unit === "function" && unit.name) return unit.name;
+  return "unit under test";
+}
+
+/** The wire type of a unit: the `this` of bound units, the parameter of factories */
+type UnitWire<T> = T extends UnitDef
+  ? T["opts"] extends BoundUnitOptions
+    ? ThisParameterType<T["__unit"]>
+    : FactoryWire<T["__unit"]>
+  : T extends BoundUnitOptions
+    ? ThisParameterType<T>
+    : FactoryWire<T>;
+
+type FactoryWire<F> = F extends (wire: infer W) => unknown ? W : unknown;
+
+/**
+ * Fake blocks of a unit for `mockUnit`. When the wire of the unit is an
+ * `InferWire`, every fake block is checked against the block proxy it
+ * replaces, so fakes can't drift from the real blocks. Fake blocks of units
+ * with other wires are any hashmap.
+ *
+ * @example
+ * ```typescript
+ * const fakeBlocks: FakeBlocks<typeof postService.addPost> = {
+ *   post: { repo: [] },
+ *   "user.service": { getUser: (id: string) => ({ id, name: "john" }) },
+ * };
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export type FakeBlocks<T> =
+  UnitWire<T> extends InferWire<infer C, infer N>
+    ? { [K in keyof WireBlocks<C, N>]?: Partial<WireBlocks<C, N>[K]> }
+    : Hashmap;
+
 type Mocked<T> =
   IsAsyncFactory<T> extends true
     ? Promise<InferUnitValue<T>>
@@ -31,7 +134,11 @@ type Mocked<T> =
  *
  * @template T - The unit definition type
  * @param def - The unit definition to mock (can be any unit type: factory, bound, plain, etc.)
- * @param fakeBlocks - Object containing fake block dependencies for testing, keyed by block path
+ * @param fakeBlocks - Object containing fake block dependencies for testing, keyed by block path,
+ *    or a spied fake wire created by `spyWire`
+ *    Typed after the wire of the unit when it's an `InferWire`, see `FakeBlocks`
+ * @param options - `strict: true` throws on blocks and units missing from the
+ *    fakes, naming the unit under test (`name`, its function name by default)
  * @returns Mocked unit instance with proper typing
  *
  * @example Cross-module dependency testing
@@ -93,6 +200,13 @@ type Mocked<T> =
  * );
  * ```
  *
+ * @example Strict fakes
+ * ```typescript
+ * const addPost = mockUnit(postService.addPost, {}, { strict: true });
+ * addPost("Test Title", "Test Content", "user123");
+ * // Error: Unit "addPost" reads block "user.service", which is not in the fake blocks
+ * ```
+ *
  * @example Block path reference guide
  * ```typescript
  * // From context "post.service":
@@ -105,11 +219,24 @@ type Mocked<T> =
  * }
  * ```
  *
+ * @throws {MissingFakeError} In strict mode, when the unit reads a block or a unit missing
+ *    from the fakes
+ *
  * @public
  * @since 1.0.0
  */
-export function mockUnit<T>(def: T, fakeBlocks: Hashmap): Mocked<T> {
-  const wire = fakeWire(fakeBlocks);
+export function mockUnit<T>(
+  def: T,
+  fakeBlocks: FakeBlocks<T> | SpyWire,
+  options?: MockUnitOptions,
+): Mocked<T> {
+  const baseWire: FakeWire =
+    typeof fakeBlocks === "function"
+      ? fakeBlocks
+      : fakeWire(fakeBlocks as Hashmap);
+  const wire = options?.strict
+    ? strictWire(baseWire, options.name ?? getUnitName(def))
+    : baseWire;
 
   if (isUnitDef(def)) {
     if (isFactoryDef(def)) {
@@ -144,3 +271,127 @@ export function mockUnit<T>(def: T, fakeBlocks: Hashmap): Mocked<T> {
 
   return def as Mocked<T>;
 }
+
+/** Hub path of the block under test in `mockBlock` */
+const MOCKED_BLOCK = "$mocked";
+
+type MockedBlock<B extends Hashmap> = true extends {
+  [K in keyof B]: IsAsyncFactory<B[K]>;
+}[keyof B]
+  ? Promise<InferBlockValue<B>>
+  : InferBlockValue<B>;
+
+/**
+ * Creates a resolved block for testing, with fake dependencies.
+ *
+ * Unlike `mockUnit`, the units of the block are wired for real: units reading
+ * their siblings through `this(".")` get the real implementations, private
+ * units included. Every other block path is read from `fakeBlocks`.
+ *
+ * @param blockDef - The block definition to test
+ * @param fakeBlocks - Fake blocks keyed by the block path the units ask for
+ * @returns The public units of the block, or a promise of them when the block
+ *    has async factories
+ *
+ * @example
+ * ```typescript
+ * import * as userService from "./userService.ts";
+ *
+ * const repo: User[] = [];
+ * const service = mockBlock(userService, { user: { repo } });
+ *
+ * // addUser reads the real getUserByEmail through this(".")
+ * service.addUser("john", "john@example.com");
+ * assertEquals(service.getUsers().length, 1);
+ * ```
+ *
+ * @throws {BlockNotFoundError} When a unit reads a block missing from
+ *    `fakeBlocks`
+ *
+ * @public
+ * @since 1.0.0
+ */
+export function mockBlock<B extends Hashmap>(
+  blockDef: B,
+  fakeBlocks: Hashmap,
+): MockedBlock<B> {
+  const hub: Hashmap = {};
+
+  Object.keys(fakeBlocks).forEach((key) => {
+    // relative fakes are read from the block under test
+    const path = isRelativePath(key)
+      ? resolveRelativePath(MOCKED_BLOCK, key)
+      : key;
+    hub[path ?? key] = fakeBlocks[key];
+  });
+
+  const circuit = {
+    __isCircuit: true,
+    __hub: { ...hub, [MOCKED_BLOCK]: extractUnits(blockDef) },
+    __inputs: {},
+    __pluginAdapters: new Map(),
+  } as BulkCircuitDef;
+
+  const getBlock = (app: (key: string) => unknown) => app(MOCKED_BLOCK);
+  const app = wireUp(circuit) as
+    ((key: string) => unknown) | Promise<(key: string) => unknown>;
+
+  return (
+    app instanceof Promise ? app.then(getBlock) : getBlock(app)
+  ) as MockedBlock<B>;
+}
+
+/**
+ * Options of `mockCircuit`.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export interface MockCircuitOptions<C extends BulkCircuitDef> {
+  /** Fake blocks replacing whole blocks of the circuit, keyed by block path */
+  fakes?: { [K in keyof C["__hub"]]?: Hashmap };
+  /** Inputs of the circuit, like in `wireUp` */
+  inputs?: C["__inputs"];
+}
+
+/**
+ * Wires up a whole circuit for testing, with some of its blocks replaced by
+ * fakes. Units reading a faked block get the fake, every other block is wired
+ * for real.
+ *
+ * @param circuit - The circuit to wire up
+ * @param options - Fake blocks and inputs of the circuit
+ * @returns The wired-up app, like `wireUp`
+ *
+ * @example
+ * ```typescript
+ * const app = await mockCircuit(appCircuit, {
+ *   fakes: { "user.repo": { data: [] } },
+ *   inputs: { config: { port: 3000 } },
+ * });
+ *
+ * app("user.service").addUser("john", "john@example.com");
+ * ```
+ *
+ * @throws {UnknownFakeError} When a fake doesn't match any block of the circuit
+ *
+ * @public
+ * @since 1.0.0
+ */
+export function mockCircuit<C extends BulkCircuitDef>(
+  circuit: C,
+  options: MockCircuitOptions<C> = {},
+): WiredUp<C> {
+  const fakes = (options.fakes ?? {}) as Rehashmap;
+
+  Object.keys(fakes).forEach((path) => {
+    if (!(path in circuit.__hub)) {
+      throw new UnknownFakeError(path);
+    }
+  });
+
+  return wireUp(
+    { ...circuit, __hub: { ...circuit.__hub, ...fakes } },
+    options.inputs,
+  ) as WiredUp<C>;
+}
@@ -1,46 +1,164 @@
-import type { BulkCircuitDef } from "./circuit.ts";
+import type { BulkCircuitDef, UnionToIntersection } from "./circuit.ts";
 import type { Hashmap } from "./common.ts";
+import type { Rehashmap } from "./block.ts";
+
+import { mapInputs } from "./block.ts";
+import { InvalidInputsError, MissingInputsError } from "./errors.ts";
+import { findInputErrors } from "./validate.ts";
 
 export interface BulkPlugin {
   __isPlugin: true;
   __circuit: BulkCircuitDef;
   __adapter: Record<string, string | Record<string, string>>;
   __inputs: Hashmap;
+  /** Input blocks supplied by value in `plug`, flattened by `mapInputs` */
+  __providedInputs?: Rehashmap;
 }
 
 type Plugin<
   C extends BulkCircuitDef,
-  A extends Record<
-    string & keyof C["__inputs"],
-    string | Record<string, string>
-  >,
+  A extends Adapter<UnprovidedInputs<C, P>>,
+  P extends Hashmap,
 > = {
   __isPlugin: true;
   __circuit: C;
   __adapter: A;
-  __inputs: Adapt<C["__inputs"], A>;
+  __inputs: Adapt<UnprovidedInputs<C, P>, A>;
+  __providedInputs?: Rehashmap;
 };
 
-type Adapt<
-  O extends Hashmap,
-  A extends Record<string & keyof O, string | Record<string, string>>,
-> = {
-  [K in keyof O as string & (K extends keyof A ? A[K] : K)]: O[K];
-};
+/**
+ * Options of `plug`.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export interface PlugOptions<P extends Hashmap> {
+  /**
+   * Input blocks of the plugged circuit supplied by value, like the inputs of
+   * `wireUp`. They are checked against the schema of the circuit inputs, and
+   * the host doesn't have to provide them.
+   */
+  inputs?: P;
+}
+
+/** Inputs of a circuit the host has to provide, or adapt */
+type UnprovidedInputs<C extends BulkCircuitDef, P extends Hashmap> = Omit<
+  C["__inputs"],
+  keyof P
+>;
+
+/**
+ * Maps the input blocks of a circuit to blocks of the host, or each of their
+ * units to a unit path of the host.
+ */
+type Adapter<O extends Hashmap> = Record<
+  string & keyof O,
+  string | Record<string, string>
+>;
+
+/**
+ * Blocks the host has to provide to a plugged circuit. Input blocks mapped
+ * unit by unit require each unit in the block of its unit path.
+ */
+type Adapt<O extends Hashmap, A extends Adapter<O>> = {
+  [
+    K in keyof O as K extends keyof A ? (A[K] extends string ? A[K] : never) : K
+  ]: O[K];
+} & UnionToIntersection<
+  {
+    [K in string & keyof A]: A[K] extends Record<string, string>
+      ? AdaptUnits<O[K], A[K]>
+      : never;
+  }[string & keyof A]
+>;
+
+/**
+ * Host blocks required by an input block mapped unit by unit.
+ *
+ * @example
+ * AdaptUnits<{ getUser: GetUser }, { getUser: "user.service.find" }>
+ * // Returns: { "user.service": { find: GetUser } }
+ */
+type AdaptUnits<O, M extends Record<string, string>> = UnionToIntersection<
+  {
+    [U in keyof M & keyof O]: {
+      [B in UnitBlock<M[U]>]: { [N in UnitName<M[U]>]: O[U] };
+    };
+  }[keyof M & keyof O]
+>;
 
+/** Block path of a unit path, `""` for the units of the root block */
+type UnitBlock<P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? Rest extends `${string}.${string}`
+    ? `${Head}.${UnitBlock<Rest>}`
+    : Head
+  : "";
+
+/** Name of the unit of a unit path */
+type UnitName<P extends string> = P extends `${string}.${infer Rest}`
+  ? UnitName<Rest>
+  : P;
+
+/**
+ * Plugs a circuit into another one. The adapter maps the inputs of the
+ * plugged circuit to blocks of the host, inputs can also be supplied by value.
+ *
+ * @param circuit - The circuit to plug
+ * @param adapter - Inputs of the circuit mapped to blocks or units of the host
+ * @param options - Options of the plug, see {@link PlugOptions}
+ * @returns The plugin, to mount in a block of the host circuit
+ *
+ * @example
+ * ```typescript
+ * const appCircuit = defineCircuit({
+ *   cache: plug(cacheCircuit, { store: "redis" }, {
+ *     inputs: { config: { ttl: 60 } },
+ *   }),
+ * }, {});
+ * ```
+ *
+ * @throws {MissingInputsError} When input blocks supplied by value lack units
+ *    declared with a `defineInputs` schema
+ * @throws {InvalidInputsError} When input units supplied by value fail their
+ *    validators
+ *
+ * @public
+ * @since 1.0.0
+ */
 export function plug<
   C extends BulkCircuitDef,
-  A extends Record<
-    string & keyof C["__inputs"],
-    string | Record<string, string>
-  >,
->(circuit: C, adapter = {} as A): Plugin<C, A> {
-  return {
+  const A extends Adapter<UnprovidedInputs<C, P>>,
+  P extends Partial<C["__inputs"]> = Record<never, never>,
+>(circuit: C, adapter = {} as A, options?: PlugOptions<P>): Plugin<C, A, P> {
+  const plugin: Plugin<C, A, P> = {
     __isPlugin: true,
     __circuit: circuit,
     __adapter: adapter,
-    __inputs: {} as Adapt<C["__inputs"], A>,
+    __inputs: {} as Adapt<UnprovidedInputs<C, P>, A>,
   };
+
+  if (options?.inputs) {
+    const provided = mapInputs(options.inputs as Rehashmap);
+    const declared = mapInputs(circuit.__inputs);
+
+    // the blocks left out are adapted from the host
+    const { missing, invalid } = findInputErrors(
+      Object.fromEntries(
+        Object.keys(provided)
+          .filter((block) => block in declared)
+          .map((block) => [block, declared[block]]),
+      ),
+      provided,
+    );
+
+    if (missing.length) throw new MissingInputsError(missing);
+    if (invalid.length) throw new InvalidInputsError(invalid);
+
+    plugin.__providedInputs = provided;
+  }
+
+  return plugin;
 }
 
 export function isPlugin(item: unknown): item is BulkPlugin {
@@ -0,0 +1,92 @@
+import { isWithin } from "./block.ts";
+
+/**
+ * An architecture rule restricting the blocks a block can read through its
+ * wire. Rules match block paths with patterns: segments separated by dots,
+ * where `*` matches one segment and `**` any number of them. A pattern also
+ * matches the blocks nested in the blocks it matches.
+ *
+ * - `{ from, deny }`: blocks matching `from` can't read blocks matching `deny`
+ * - `{ to, only }`: blocks matching `to` can only be read by blocks matching
+ *   `only`
+ *
+ * Blocks can always read themselves and the blocks they are nested in.
+ *
+ * @example
+ * ```typescript
+ * const rules: AccessRule[] = [
+ *   // the domain doesn't know about the infrastructure
+ *   { from: "domain", deny: "infra" },
+ *   // repositories are only read by services
+ *   { to: "*.repo", only: "*.service" },
+ * ];
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export type AccessRule =
+  { from: string; deny: string } | { to: string; only: string };
+
+/** Checks if a block path matches a rule pattern */
+export function matchesPattern(path: string, pattern: string): boolean {
+  return matchSegments(splitPath(path), splitPath(pattern));
+}
+
+function matchSegments(path: string[], pattern: string[]): boolean {
+  // patterns match the nested blocks too
+  if (!pattern.length) return true;
+
+  const [head, ...rest] = pattern;
+
+  if (head === "**") {
+    return (
+      path.some((_, index) => matchSegments(path.slice(index), rest)) ||
+      matchSegments([], rest)
+    );
+  }
+
+  if (!path.length) return false;
+  if (head !== "*" && head !== path[0]) return false;
+
+  return matchSegments(path.slice(1), rest);
+}
+
+function splitPath(path: string): string[] {
+  return path ? path.split(".") : [];
+}
+
+/** Returns the first rule forbidding the block in `from` to read the block in `to` */
+export function findViolatedRule(
+  rules: AccessRule[],
+  from: string,
+  to: string,
+): AccessRule | undefined {
+  if (isWithin(from, to)) return;
+
+  return rules.find((rule) => {
+    if ("deny" in rule) {
+      return matchesPattern(from, rule.from) && matchesPattern(to, rule.deny);
+    }
+
+    return matchesPattern(to, rule.to) && !matchesPattern(from, rule.only);
+  });
+}
+
+/** Describes a rule for the error messages */
+export function describeRule(rule: AccessRule): string {
+  return "deny" in rule
+    ? `"${rule.from}" can't read "${rule.deny}"`
+    : `only "${rule.only}" can read "${rule.to}"`;
+}
+
+/** Prefixes the patterns of the rules of a circuit plugged in `mount` */
+export function mountRules(rules: AccessRule[], mount: string): AccessRule[] {
+  const prefix = (pattern: string) => (pattern ? `${mount}.${pattern}` : mount);
+
+  return rules.map((rule) =>
+    "deny" in rule
+      ? { from: prefix(rule.from), deny: prefix(rule.deny) }
+      : { to: prefix(rule.to), only: prefix(rule.only) },
+  );
+}
@@ -0,0 +1,194 @@
+import type { Hashmap } from "./common.ts";
+
+/** A recorded call of a function unit of a spied fake block */
+export interface SpyCall {
+  args: unknown[];
+  /** Returned value, when the call didn't throw */
+  result?: unknown;
+  /** Thrown error, when the call threw or the promise it returned rejected */
+  error?: unknown;
+  threw: boolean;
+}
+
+/**
+ * Fake wire that records the blocks read through it and the calls to the
+ * function units of the fake blocks.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export interface SpyWire<F extends Hashmap = Hashmap> {
+  <K extends "" | keyof F>(blockPath?: K): F[K];
+  /** Block paths read through the wire, in order */
+  lookups: string[];
+  /** Calls of a function unit, by unit path (`"user.service.getUser"`) */
+  calls(unitPath: string): SpyCall[];
+  /** Throws unless the block was read through the wire */
+  assertLookedUp(blockPath: string): void;
+  /** Throws unless the unit was called, `times` times when given */
+  assertCalled(unitPath: string, times?: number): void;
+  /** Throws unless the unit was called with the given arguments */
+  assertCalledWith(unitPath: string, ...args: unknown[]): void;
+  /** Forgets the recorded lookups and calls */
+  reset(): void;
+}
+
+/**
+ * Creates a fake wire for `mockUnit` that spies on the fake blocks.
+ *
+ * Every block lookup is recorded, and the function units of the fake blocks
+ * are wrapped to record their arguments, return values and thrown errors.
+ * Other units are returned as they are.
+ *
+ * @param fakeBlocks - Fake blocks keyed by block path, like in `mockUnit`
+ * @returns A spied fake wire
+ *
+ * @example
+ * ```typescript
+ * const wire = spyWire({
+ *   "user.service": { getUser: (id: string) => ({ id, name: "john" }) },
+ * });
+ *
+ * const addPost = mockUnit(postService.addPost, wire);
+ * addPost("title", "content", "author-id");
+ *
+ * wire.assertCalled("user.service.getUser", 1);
+ * wire.assertCalledWith("user.service.getUser", "author-id");
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export function spyWire<F extends Hashmap>(fakeBlocks: F): SpyWire<F> {
+  const lookups: string[] = [];
+  const calls = new Map<string, SpyCall[]>();
+  const spiedBlocks = new Map<string, unknown>();
+
+  function getCalls(unitPath: string): SpyCall[] {
+    if (!calls.has(unitPath)) calls.set(unitPath, []);
+    return calls.get(unitPath) as SpyCall[];
+  }
+
+  function spyBlock(blockPath: string): unknown {
+    const block = fakeBlocks[blockPath];
+    if (typeof block !== "object" || block === null) return block;
+
+    if (!spiedBlocks.has(blockPath)) {
+      const spies = new Map<string | symbol, unknown>();
+
+      const proxy = new Proxy(block, {
+        get(target, prop) {
+          const value = Reflect.get(target, prop);
+          if (typeof value !== "function" || typeof prop !== "string") {
+            return value;
+          }
+
+          if (!spies.has(prop)) {
+            const unitPath = blockPath ? `${blockPath}.${prop}` : prop;
+            spies.set(prop, spyOn(value, getCalls(unitPath)));
+          }
+
+          return spies.get(prop);
+        },
+      });
+
+      spiedBlocks.set(blockPath, proxy);
+    }
+
+    return spiedBlocks.get(blockPath);
+  }
+
+  const wire = (blockPath = "") => {
+    lookups.push(blockPath);
+    return spyBlock(blockPath);
+  };
+
+  return Object.assign(wire, {
+    lookups,
+    calls: (unitPath: string) => getCalls(unitPath).slice(),
+
+    assertLookedUp(blockPath: string) {
+      if (lookups.includes(blockPath)) return;
+      throw new Error(
+        `Expected block "${blockPath}" to be looked up, lookups: ${format(lookups)}`,
+      );
+    },
+
+    assertCalled(unitPath: string, times?: number) {
+      const count = getCalls(unitPath).length;
+
+      if (times === undefined ? count > 0 : count === times) return;
+
+      throw new Error(
+        times === undefined
+          ? `Expected "${unitPath}" to be called, it was not called`
+          : `Expected "${unitPath}" to be called ${times} time(s), it was called ${count} time(s)`,
+      );
+    },
+
+    assertCalledWith(unitPath: string, ...args: unknown[]) {
+      const unitCalls = getCalls(unitPath);
+      if (unitCalls.some((call) => isEqual(call.args, args))) return;
+
+      throw new Error(
+        `Expected "${unitPath}" to be called with ${format(args)}, calls: ${format(unitCalls.map((call) => call.args))}`,
+      );
+    },
+
+    reset() {
+      lookups.length = 0;
+      calls.forEach((unitCalls) => (unitCalls.length = 0));
+    },
+  }) as SpyWire<F>;
+}
+
+function spyOn(fn: (...args: unknown[]) => unknown, calls: SpyCall[]) {
+  return function (this: unknown, ...args: unknown[]) {
+    const call: SpyCall = { args, threw: false };
+    calls.push(call);
+
+    const fail = (error: unknown) => {
+      call.threw = true;
+      call.error = error;
+      delete call.result;
+    };
+
+    try {
+      call.result = fn.apply(this, args);
+    } catch (error) {
+      fail(error);
+      throw error;
+    }
+
+    // async units throw by rejecting, the caller still gets the rejection
+    if (call.result instanceof Promise) call.result.catch(fail);
+
+    return call.result;
+  };
+}
+
+/** Structural equality of the arguments of a call */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object") return false;
+  if (a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aRecord = a as Hashmap;
+  const bRecord = b as Hashmap;
+  const keys = Object.keys(aRecord);
+
+  if (keys.length !== Object.keys(bRecord).length) return false;
+
+  return keys.every(
+    (key) => key in bRecord && isEqual(aRecord[key], bRecord[key]),
+  );
+}
+
+function format(value: unknown): string {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
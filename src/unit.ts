@@ -1,3 +1,6 @@
+import { asyncDispose, dispose as syncDispose } from "./common.ts";
+import { InvalidUnitDefinitionError } from "./errors.ts";
+
 type Func = (...args: unknown[]) => unknown;
 type AsyncFunc = (...args: unknown[]) => Promise<unknown>;
 
@@ -28,19 +31,32 @@ export function isPrivate(unit: unknown): unit is PrivateUnitFunc {
   return false;
 }
 
+/**
+ * How long a unit instance lives:
+ * - `singleton`: created once per app (default)
+ * - `transient`: created again on every access, never cached nor disposed
+ * - `scoped`: created once per scope
+ */
+export type Lifetime = "singleton" | "transient" | "scoped";
+
 type BoundFunc<T extends Func> = T & {
   isPrivate?: boolean;
   is: "bound";
+  lifetime?: Lifetime;
 };
 
 type FactoryFunc<F extends Func> = F & {
   isPrivate?: boolean;
   is: "factory";
+  lifetime?: Lifetime;
+  dispose?(value: unknown): unknown;
 };
 
 type AsyncFactoryFunc<F extends AsyncFunc> = F & {
   isPrivate?: boolean;
   is: "asyncFactory";
+  dependsOn?: UnitDependencies;
+  dispose?(value: unknown): unknown;
 };
 
 export function isBoundFunc(unit: unknown): unit is BoundFunc<Func> {
@@ -93,6 +109,7 @@ type BoundDef<T extends Func> = {
   opts: {
     isPrivate?: boolean;
     is: "bound";
+    lifetime?: Lifetime;
   };
 };
 
@@ -101,6 +118,8 @@ type FactoryDef<T extends Func> = {
   opts: {
     isPrivate?: boolean;
     is: "factory";
+    lifetime?: Lifetime;
+    dispose?(value: unknown): unknown;
   };
 };
 
@@ -109,6 +128,8 @@ type AsyncFactoryDef<F extends AsyncFunc> = {
   opts: {
     isPrivate?: boolean;
     is: "asyncFactory";
+    dependsOn?: UnitDependencies;
+    dispose?(value: unknown): unknown;
   };
 };
 
@@ -160,18 +181,39 @@ export interface PlainUnitOptions {
 export interface BoundUnitOptions {
   isPrivate?: boolean;
   is: "bound";
+  lifetime?: Lifetime;
 }
 
 export interface FactoryUnitOptions {
   isPrivate?: boolean;
   is: "factory";
+  lifetime?: Lifetime;
+  /**
+   * Teardown of the created value. Declared as a method so the parameter
+   * can be annotated with the unit type.
+   */
+  dispose?(value: unknown): unknown;
 }
 
 export interface AsyncFactoryUnitOptions {
   isPrivate?: boolean;
   is: "asyncFactory";
+  /** Units resolved before the factory runs, sparing it a run */
+  dependsOn?: UnitDependencies;
+  dispose?(value: unknown): unknown;
 }
 
+/**
+ * Units an async factory reads, by block key as read through its wire.
+ *
+ * @example
+ * ```typescript
+ * // w().config, w("infra").db and w("infra").cache
+ * const dependsOn = { "": ["config"], infra: ["db", "cache"] };
+ * ```
+ */
+export type UnitDependencies = Record<string, string[]>;
+
 type UnitOptions =
   | PlainUnitOptions
   | BoundUnitOptions
@@ -198,6 +240,14 @@ type UnitDefinition<T, O extends UnitOptions> = {
  * @param options.is - 'bound': Binds function to the wire (this = wire)\
  *    'factory': Calls function with wire as parameter.\
  *    'asyncFactory': For async factory functions
+ * @param options.lifetime - For factory and bound units: 'singleton' (default),\
+ *    'transient' (created on every access) or 'scoped' (created once per scope).\
+ *    Async factory units are always singletons
+ * @param options.dependsOn - For async factory units: the units the factory\
+ *    reads, by block key. `wireUp` resolves them before running the factory,\
+ *    instead of running it again once they are resolved
+ * @param options.dispose - Teardown callback for factory and async factory units,
+ *    called with the created value when the app shuts down
  * @returns Unit definition object with specified behavior
  *
  * @example Plain unit (default behavior)
@@ -235,6 +285,30 @@ type UnitDefinition<T, O extends UnitOptions> = {
  * );
  * ```
  *
+ * @example Async factory reading another async unit
+ * ```typescript
+ * export const userRepo = defineUnit(
+ *   async (wire) => await createRepo(wire("infra").db),
+ *   { is: 'asyncFactory', dependsOn: { infra: ['db'] } }
+ * );
+ * ```
+ *
+ * @example Factory unit with teardown
+ * ```typescript
+ * export const pool = defineUnit(
+ *   async (wire) => await createPool(wire().config.dbUrl),
+ *   { is: 'asyncFactory', dispose: (pool: Pool) => pool.end() }
+ * );
+ * ```
+ *
+ * @example Transient unit - a new instance on every access
+ * ```typescript
+ * export const requestId = defineUnit(
+ *   () => crypto.randomUUID(),
+ *   { is: 'factory', lifetime: 'transient' }
+ * );
+ * ```
+ *
  * @example Private unit - only accessible within same block
  * ```typescript
  * export const internalHelper = defineUnit(
@@ -251,7 +325,7 @@ type UnitDefinition<T, O extends UnitOptions> = {
  * getUsers.is = 'bound' as const;
  * ```
  *
- * @throws {Error} When is equals 'bound', 'factory', or 'asyncFactory' but def is not a function
+ * @throws {InvalidUnitDefinitionError} When is equals 'bound', 'factory', or 'asyncFactory' but def is not a function
  *
  * @public
  * @since 1.0.0
@@ -267,7 +341,7 @@ export function defineUnit<const T, const O extends UnitOptions = UnitOptions>(
     opts.is === "asyncFactory"
   ) {
     if (typeof def !== "function")
-      throw new Error("Wrong unit definition value");
+      throw new InvalidUnitDefinitionError(opts.is, def);
   }
   return { __unit: def, opts } as UnitDefinition<T, O>;
 }
@@ -322,3 +396,63 @@ export function resolveUnit<D, W>(def: D, wire: W) {
             : def.__unit
         : def;
 }
+
+/** Returns the lifetime of a unit, units without one are singletons */
+export function getUnitLifetime(def: unknown): Lifetime {
+  const lifetime =
+    isFactoryFunc(def) || isBoundFunc(def)
+      ? def.lifetime
+      : isFactoryDef(def) || isBoundDef(def)
+        ? def.opts.lifetime
+        : undefined;
+
+  return lifetime ?? "singleton";
+}
+
+/** Returns the units an async factory reads, declared with `dependsOn` */
+export function getUnitDependencies(def: unknown): UnitDependencies {
+  if (isAsyncFactoryFunc(def)) return def.dependsOn ?? {};
+  if (isAsyncFactoryDef(def)) return def.opts.dependsOn ?? {};
+  return {};
+}
+
+/** How a unit turns its definition into its value */
+export type UnitKind = "plain" | "bound" | "factory" | "asyncFactory";
+
+/** Returns the kind of a unit, units without one are plain */
+export function getUnitKind(def: unknown): UnitKind {
+  if (isBoundFunc(def) || isBoundDef(def)) return "bound";
+  if (isFactoryFunc(def) || isFactoryDef(def)) return "factory";
+  if (isAsyncFactoryFunc(def) || isAsyncFactoryDef(def)) return "asyncFactory";
+  return "plain";
+}
+
+/**
+ * Returns the teardown of a unit created by a factory or async factory.
+ * An explicit `dispose` option takes precedence over `Symbol.asyncDispose`
+ * and `Symbol.dispose` methods of the created value.
+ */
+export function getUnitDisposer(
+  def: unknown,
+  value: unknown,
+): (() => unknown) | undefined {
+  const dispose =
+    isFactoryFunc(def) || isAsyncFactoryFunc(def)
+      ? def.dispose
+      : isFactoryDef(def) || isAsyncFactoryDef(def)
+        ? def.opts.dispose
+        : null;
+
+  if (dispose === null) return;
+  if (dispose) return () => dispose(value);
+
+  if (typeof value !== "object" || value === null) return;
+
+  const disposable = value as Record<symbol, unknown>;
+
+  for (const symbol of [asyncDispose, syncDispose]) {
+    if (!symbol) continue;
+    const method = disposable[symbol];
+    if (isFunction(method)) return () => method.call(value);
+  }
+}
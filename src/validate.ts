@@ -0,0 +1,378 @@
+import type { Hashmap, InputsMap } from "./common.ts";
+import type { AdapterLookup, AdapterTarget, Rehashmap } from "./block.ts";
+import type { BulkCircuitDef } from "./circuit.ts";
+import type { InvalidInput, MissingInput } from "./errors.ts";
+import type { BulkPlugin } from "./plug.ts";
+import type { AccessRule } from "./rules.ts";
+
+import { isCircuit } from "./circuit.ts";
+import { isPlugin } from "./plug.ts";
+import {
+  extractUnits,
+  isBlock,
+  isHashmap,
+  isWithin,
+  mapInputs,
+  resolveAdapterTarget,
+} from "./block.ts";
+import { describeRule, findViolatedRule } from "./rules.ts";
+import { describeAdapterProblem } from "./errors.ts";
+
+export type CircuitProblemKind =
+  | "missingInput"
+  | "invalidInput"
+  | "invalidAdapter"
+  | "emptyBlock"
+  | "keyCollision"
+  | "forbiddenAccess";
+
+/** A problem found by `validateCircuit` */
+export interface CircuitProblem {
+  kind: CircuitProblemKind;
+  /** Path of the block, input or plugin mount the problem is about */
+  path: string;
+  message: string;
+}
+
+/**
+ * Checks the structure of a circuit without creating any unit.
+ *
+ * Reports:
+ * - `missingInput`: declared input blocks and units not present in `inputs`.
+ *   Skipped when `inputs` is omitted.
+ * - `invalidInput`: units of `inputs` rejected by their validator.
+ * - `invalidAdapter`: plugin adapters pointing to blocks or units that are
+ *   neither in the host circuit nor in its inputs, blocks of plugged circuits
+ *   are found through their outputs. Also the declared inputs of the plugged
+ *   circuits without adapter, and without a host block of the same name.
+ * - `emptyBlock`: blocks without units, they are not wireable.
+ * - `keyCollision`: keys that resolve to the same block path once the `$`
+ *   prefix is removed, like `user` and `$user`.
+ * - `forbiddenAccess`: plugin adapters pointing to blocks that the access
+ *   rules of the circuit forbid every block of the plugin to read.
+ *
+ * @param circuit - The circuit to check
+ * @param inputs - The inputs the circuit will be wired up with
+ * @returns The list of problems, empty when the circuit is valid
+ *
+ * @example
+ * ```typescript
+ * const problems = validateCircuit(appCircuit, inputs);
+ *
+ * if (problems.length) {
+ *   problems.forEach((problem) => console.error(problem.message));
+ *   Deno.exit(1);
+ * }
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export function validateCircuit<C extends BulkCircuitDef>(
+  circuit: C,
+  inputs?: C["__inputs"],
+): CircuitProblem[] {
+  const problems: CircuitProblem[] = [];
+  const declaredInputs = mapInputs(circuit.__inputs);
+  const providedInputs = inputs ? mapInputs(inputs) : undefined;
+
+  if (providedInputs) {
+    checkInputs(declaredInputs, providedInputs, problems);
+  }
+
+  checkAdapters(circuit, { ...declaredInputs, ...providedInputs }, problems);
+
+  if (circuit.__mainBlock) {
+    checkBlocks(circuit.__mainBlock, "", problems);
+  }
+
+  return problems;
+}
+
+function checkInputs(
+  declared: Rehashmap,
+  provided: Rehashmap,
+  problems: CircuitProblem[],
+) {
+  const { missing, invalid } = findInputErrors(declared, provided);
+
+  missing.forEach(({ block, unit }) => {
+    problems.push(
+      unit === undefined
+        ? {
+            kind: "missingInput",
+            path: block,
+            message: `Input block "${block}" is not supplied`,
+          }
+        : {
+            kind: "missingInput",
+            path: joinPath(block, unit),
+            message: `Input unit "${unit}" of block "${block}" is not supplied`,
+          },
+    );
+  });
+
+  invalid.forEach(({ block, unit }) => {
+    problems.push({
+      kind: "invalidInput",
+      path: joinPath(block, unit),
+      message: `Input unit "${unit}" of block "${block}" is not valid`,
+    });
+  });
+}
+
+/**
+ * Lists the declared input blocks and units that are not provided, and the
+ * provided units rejected by their validator.
+ * Both inputs are flattened by `mapInputs`.
+ */
+export function findInputErrors(
+  declared: Rehashmap,
+  provided: Rehashmap,
+): { missing: MissingInput[]; invalid: InvalidInput[] } {
+  const missing: MissingInput[] = [];
+  const invalid: InvalidInput[] = [];
+
+  Object.keys(declared).forEach((block) => {
+    const units = provided[block];
+
+    if (!units && block) {
+      missing.push({ block });
+      return;
+    }
+
+    Object.keys(declared[block]).forEach((unit) => {
+      const schema = declared[block][unit];
+
+      // root objects are input blocks too, they are checked as blocks
+      if (!block && isHashmap(schema)) return;
+
+      if (!units || !(unit in units)) {
+        missing.push({ block, unit });
+        return;
+      }
+
+      if (typeof schema === "function" && !schema(units[unit])) {
+        invalid.push({ block, unit });
+      }
+    });
+  });
+
+  return { missing, invalid };
+}
+
+function checkAdapters(
+  circuit: BulkCircuitDef,
+  inputs: Rehashmap,
+  problems: CircuitProblem[],
+) {
+  const pluginInputs: InputsMap = circuit.__pluginInputs ?? new Map();
+  const lookup: AdapterLookup = {
+    adapters: circuit.__pluginAdapters,
+    outputs: circuit.__pluginOutputs ?? new Map(),
+    hasBlock: (path) => Object.keys(circuit.__hub).includes(path),
+    hasInput: (mount, key) =>
+      Object.keys(mount ? (pluginInputs.get(mount) ?? {}) : inputs).includes(
+        key,
+      ),
+  };
+
+  /** Units of the block an adapter points to */
+  const getTargetBlock = (found: AdapterTarget): Hashmap => {
+    if (found.kind === "block") return circuit.__hub[found.path];
+    if (found.kind === "units") {
+      return circuit.__pluginAdapters.get(found.mount)?.[found.key] as Hashmap;
+    }
+    const blocks = found.mount ? pluginInputs.get(found.mount) : inputs;
+    return (blocks as Rehashmap)[found.key];
+  };
+
+  circuit.__pluginAdapters.forEach((adapter, mount) => {
+    const adapted = Object.keys(adapter);
+
+    adapted.forEach((input) => {
+      const target = adapter[input];
+
+      if (typeof target === "string") {
+        const found = resolveAdapterTarget(lookup, mount, target);
+
+        if (found) {
+          if (found.kind === "block") {
+            checkAdapterAccess(circuit, mount, input, found.path, problems);
+          }
+          return;
+        }
+
+        problems.push({
+          kind: "invalidAdapter",
+          path: mount,
+          message: describeAdapterProblem(mount, input, adapted, target),
+        });
+        return;
+      }
+
+      const readBlocks = new Set<string>();
+
+      Object.keys(target).forEach((unit) => {
+        const unitPath = target[unit];
+        const dot = unitPath.lastIndexOf(".");
+        const found = resolveAdapterTarget(
+          lookup,
+          mount,
+          dot === -1 ? "" : unitPath.slice(0, dot),
+        );
+
+        if (found && unitPath.slice(dot + 1) in getTargetBlock(found)) {
+          if (found.kind === "block" && !readBlocks.has(found.path)) {
+            readBlocks.add(found.path);
+            checkAdapterAccess(circuit, mount, input, found.path, problems);
+          }
+          return;
+        }
+
+        problems.push({
+          kind: "invalidAdapter",
+          path: mount,
+          message: `Unit "${unit}" of input "${input}" of plugin "${mount}" points to unknown unit "${unitPath}"`,
+        });
+      });
+    });
+
+    // inputs without adapter are read from the block of the same name
+    const plugin = findPlugin(circuit, mount);
+    if (!plugin) return;
+
+    const provided = pluginInputs.get(mount) ?? {};
+
+    const declared = mapInputs(plugin.__circuit.__inputs);
+
+    Object.keys(declared).forEach((input) => {
+      if (input in adapter || input in provided) return;
+
+      // root objects are input blocks too, they are checked as blocks
+      if (!input && Object.values(declared[input]).every(isHashmap)) return;
+      if (resolveAdapterTarget(lookup, mount, input)) return;
+
+      problems.push({
+        kind: "invalidAdapter",
+        path: mount,
+        message: describeAdapterProblem(mount, input, adapted, input),
+      });
+    });
+  });
+}
+
+/** Finds the plugin mounted in `mount` in the blocks of a circuit */
+function findPlugin(
+  circuit: BulkCircuitDef,
+  mount: string,
+): BulkPlugin | undefined {
+  let block = circuit.__mainBlock;
+  let item: unknown;
+
+  for (const name of mount.split(".")) {
+    if (!block) return;
+
+    item = block[name] ?? block[`$${name}`];
+    block = isPlugin(item)
+      ? item.__circuit.__mainBlock
+      : isHashmap(item)
+        ? item
+        : undefined;
+  }
+
+  return isPlugin(item) ? item : undefined;
+}
+
+/**
+ * Reports the adapter of a plugin pointing to a block that the access rules
+ * forbid every block of the plugin to read.
+ */
+function checkAdapterAccess(
+  circuit: BulkCircuitDef,
+  mount: string,
+  input: string,
+  target: string,
+  problems: CircuitProblem[],
+) {
+  const rules = circuit.__rules ?? [];
+  const readers = Object.keys(circuit.__hub).filter((path) =>
+    isWithin(path, mount),
+  );
+
+  if (!rules.length || !readers.length) return;
+
+  const violated = readers.map((reader) =>
+    findViolatedRule(rules, reader, target),
+  );
+
+  if (violated.some((rule) => rule === undefined)) return;
+
+  problems.push({
+    kind: "forbiddenAccess",
+    path: mount,
+    message: `Input "${input}" of plugin "${mount}" points to block "${target}", which the plugin can't read: ${describeRule(violated[0] as AccessRule)}`,
+  });
+}
+
+function checkBlocks(block: Hashmap, path: string, problems: CircuitProblem[]) {
+  const keys = Object.keys(block).filter((key) => key !== "$");
+
+  keys.forEach((key) => {
+    const item = block[key];
+    if (!isHashmap(item)) return;
+
+    const isPrefixed = key.startsWith("$");
+    const name = isPrefixed ? key.slice(1) : key;
+    const blockPath = joinPath(path, name);
+
+    if (isPrefixed && keys.includes(name)) {
+      problems.push({
+        kind: "keyCollision",
+        path: blockPath,
+        message: `Keys "${name}" and "${key}" both resolve to "${blockPath}"`,
+      });
+    }
+
+    if (isPlugin(item)) {
+      const pluginBlock = item.__circuit.__mainBlock;
+      if (pluginBlock) checkBlocks(pluginBlock, blockPath, problems);
+      return;
+    }
+
+    if (isCircuit(item)) return;
+    if (!isPrefixed && !isBlock(item)) return;
+
+    if (!hasUnits(item)) {
+      problems.push({
+        kind: "emptyBlock",
+        path: blockPath,
+        message: `Block "${blockPath}" has no units`,
+      });
+      return;
+    }
+
+    checkBlocks(item, blockPath, problems);
+  });
+}
+
+/** Checks if a block or any of its sub-blocks contains units */
+function hasUnits(block: Hashmap): boolean {
+  if (Object.keys(extractUnits(block)).length) return true;
+
+  return Object.keys(block).some((key) => {
+    if (key === "$") return false;
+
+    const item = block[key];
+    if (isPlugin(item)) return Object.keys(item.__circuit.__hub).length > 0;
+    if (isCircuit(item) || !isHashmap(item)) return false;
+
+    return key.startsWith("$") || isBlock(item) ? hasUnits(item) : false;
+  });
+}
+
+function joinPath(parent: string, key: string): string {
+  if (!parent) return key;
+  if (!key) return parent;
+  return `${parent}.${key}`;
+}
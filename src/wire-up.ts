@@ -1,25 +1,123 @@
-import type { Hashmap, Context, AdaptersMap } from "./common.ts";
+import type { Hashmap, Context, AdaptersMap, InputsMap } from "./common.ts";
+import { asyncDispose } from "./common.ts";
 import type { IsAsyncFactory, IsPrivateUnit } from "./unit.ts";
-import type { BlockDef, BlockProxy, InferBlockValue } from "./block.ts";
+import type {
+  BlockDef,
+  BlockProxy,
+  InferBlockValue,
+  Rehashmap,
+} from "./block.ts";
 import type { BulkCircuitDef } from "./circuit.ts";
+import type { CircuitGraph } from "./inspect.ts";
 
-import { isAsyncFactoryDef, isAsyncFactoryFunc } from "./unit.ts";
 import {
-  defineBlock,
-  extractUnits,
+  getUnitDependencies,
+  getUnitDisposer,
+  isAsyncFactoryDef,
+  isAsyncFactoryFunc,
+} from "./unit.ts";
+import {
+  createBlockReader,
   getBlockWire,
   isHashmap,
-  mapBlocks,
+  mapInputs,
+  registerDisposer,
 } from "./block.ts";
 import type { BulkPlugin } from "./plug.ts";
+import {
+  AsyncResolutionError,
+  CircularDependencyError,
+  DisposeError,
+  InvalidConcurrencyError,
+  InvalidInputsError,
+  InvalidOverrideError,
+  MissingInputsError,
+  PendingUnitError,
+  WiremapError,
+} from "./errors.ts";
+import { findInputErrors } from "./validate.ts";
+import { buildGraph } from "./inspect.ts";
 
 /**
- * Determines the return type of wireUp - returns Promise<Wire> if any async factories exist.
+ * Determines the return type of wireUp - returns Promise<App> if any async factories exist.
  */
-type WiredUp<Defs extends BulkCircuitDef> =
+export type WiredUp<Defs extends BulkCircuitDef> =
   AnyItemContainsAnyAsyncFactory<Defs["__hub"]> extends true
-    ? Promise<InferWire<Defs>>
-    : InferWire<Defs>;
+    ? Promise<WiredApp<Defs>>
+    : WiredApp<Defs>;
+
+/**
+ * The wired-up application: the root wire plus the controls of its lifecycle.
+ * Where the runtime supports it, the app is also `AsyncDisposable`
+ * (`await using app = await wireUp(circuit)`).
+ *
+ * @public
+ * @since 1.0.0
+ */
+export type WiredApp<C extends BulkCircuitDef> = InferWire<C> & {
+  /**
+   * Disposes the created units in reverse creation order.
+   * Every disposer runs, failures are thrown together as a `DisposeError`.
+   */
+  shutdown(): Promise<void>;
+  /**
+   * Creates a scope, e.g. for a request. Scoped units get an instance per
+   * scope, singletons are shared with the app.
+   * `overrides` replaces units in the scope, keyed by block path and unit name.
+   */
+  createScope(overrides?: UnitOverrides<C>): WiredScope<C>;
+  /**
+   * Returns the graph of the circuit, like `inspect`, with the blocks read
+   * through the wires so far, in the app and its scopes.
+   */
+  $graph(): CircuitGraph;
+};
+
+/**
+ * A scope of a wired-up app. Where the runtime supports it, the scope is also
+ * `AsyncDisposable`.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export type WiredScope<C extends BulkCircuitDef> = InferWire<C> & {
+  /** Disposes the scoped units created in the scope, like `app.shutdown()` */
+  dispose(): Promise<void>;
+};
+
+/**
+ * Units replacing the ones of a circuit, keyed by block path and unit name.
+ * Values are unit definitions, factories run with the wire of their block.
+ *
+ * @example
+ * ```typescript
+ * const overrides: UnitOverrides<typeof appCircuit> = {
+ *   "request": { user: currentUser },
+ * };
+ * ```
+ */
+export type UnitOverrides<C extends BulkCircuitDef> = {
+  [K in keyof C["__hub"]]?: { [U in keyof C["__hub"][K]]?: unknown };
+};
+
+/**
+ * Options of `wireUp`.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export interface WireUpOptions<C extends BulkCircuitDef = BulkCircuitDef> {
+  /**
+   * Maximum number of async factories running at the same time.
+   * Unlimited by default.
+   */
+  concurrency?: number;
+  /**
+   * Units replacing the ones of the circuit, keyed by block path and unit
+   * name. Async factory units can only be replaced by values or async factories.
+   */
+  overrides?: UnitOverrides<C>;
+}
 
 /**
  * Recursively checks if any item in the definitions contains an async factory.
@@ -92,10 +190,13 @@ export interface InferWire<
   (blockPath: "."): BlockProxy<FilterUnitValues<C["__hub"][N]>>;
 
   // absolute block resolution
-  <K extends keyof C["__hub"]>(
+  <K extends VisibleBlockPaths<C, N>>(
     blockPath?: K,
   ): BlockProxy<FilterPublicUnitValues<C["__hub"][K]>>;
 
+  // relative block resolution
+  <K extends keyof RelativeBlocks<C, N>>(blockPath: K): RelativeBlocks<C, N>[K];
+
   // input root block resolution
   (): FilterPublicUnitValues<C["__inputs"][""]>;
 
@@ -105,6 +206,97 @@ export interface InferWire<
   ): FilterPublicUnitValues<C["__inputs"][K]>;
 }
 
+/**
+ * The blocks a wire of `InferWire<C, N>` reads, keyed by the block path it
+ * reads them with.
+ */
+export type WireBlocks<
+  C extends BulkCircuitDef,
+  N extends keyof C["__hub"] = "",
+> = {
+  [K in VisibleBlockPaths<C, N>]: BlockProxy<
+    FilterPublicUnitValues<C["__hub"][K]>
+  >;
+} & {
+  ".": BlockProxy<FilterUnitValues<C["__hub"][N]>>;
+} & RelativeBlocks<C, N> & {
+    [K in keyof C["__inputs"]]: FilterPublicUnitValues<C["__inputs"][K]>;
+  };
+
+/**
+ * Paths of the blocks the block in `N` can read: private blocks are only
+ * readable from the block they are nested in and its sub-blocks.
+ */
+type VisibleBlockPaths<C extends BulkCircuitDef, N> = {
+  [K in keyof C["__hub"] & string]: IsPrivateBlock<C["__hub"][K]> extends true
+    ? IsWithinPath<N, ParentPath<K>> extends true
+      ? K
+      : never
+    : K;
+}[keyof C["__hub"] & string];
+
+/** Blocks of plugged circuits can be `never` in the hub, they are not private */
+type IsPrivateBlock<T> = [T] extends [never]
+  ? false
+  : T extends { $: { isPrivate: true } }
+    ? true
+    : false;
+
+/**
+ * The blocks the block in `N` can read, keyed by their path relative to it.
+ */
+type RelativeBlocks<C extends BulkCircuitDef, N> = {
+  [
+    K in VisibleBlockPaths<C, N> as K extends N
+      ? never
+      : RelativePath<N & string, K>
+  ]: BlockProxy<FilterPublicUnitValues<C["__hub"][K]>>;
+};
+
+/**
+ * Shortest relative path from a block to another one.
+ *
+ * @example
+ * RelativePath<"user.service", "user.repo">
+ * // Returns: "../repo"
+ */
+type RelativePath<From extends string, To extends string> = From extends ""
+  ? `./${To}`
+  : To extends `${From}.${infer Rest}`
+    ? `./${Rest}`
+    : ParentRelativePath<ParentPath<From>, To>;
+
+/** Relative path from the parent of a block to another block */
+type ParentRelativePath<
+  Parent extends string,
+  To extends string,
+> = To extends Parent
+  ? ".."
+  : Parent extends ""
+    ? `../${To}`
+    : To extends `${Parent}.${infer Rest}`
+      ? `../${Rest}`
+      : `../${ParentRelativePath<ParentPath<Parent>, To>}`;
+
+/**
+ * Path of the block a block is nested in.
+ *
+ * @example
+ * ParentPath<"user.service.repo">
+ * // Returns: "user.service"
+ */
+type ParentPath<P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? Rest extends `${string}.${string}`
+    ? `${Head}.${ParentPath<Rest>}`
+    : Head
+  : "";
+
+type IsWithinPath<P, Parent extends string> = Parent extends ""
+  ? true
+  : P extends Parent | `${Parent}.${string}`
+    ? true
+    : false;
+
 export type InferOutput<C extends BulkCircuitDef> = {
   [K in keyof C["__hub"]]: InferBlockValue<C["__hub"][K]>;
 };
@@ -146,6 +338,8 @@ type ExtractNonUnitKeys<T> = {
  *
  * @template C - The definitions object type
  * @param circuit - Object containing unit definitions and imported blocks. Each block should export a `$` tag via `tagBlock`.
+ * @param inputs - External inputs required by the circuit.
+ * @param options - Options of the bootstrap, like the concurrency of the async factories.
  * @returns Promise<Wire> if any async factory units exist, otherwise Wire for synchronous resolution.
  *
  * @example Basic application setup
@@ -183,46 +377,223 @@ type ExtractNonUnitKeys<T> = {
  * asyncApp().database.query("SELECT * FROM users");
  * ```
  *
+ * @example Limit the async factories running at the same time
+ * ```typescript
+ * const app = await wireUp(appCircuit, {}, { concurrency: 4 });
+ * ```
+ *
+ * @example Teardown
+ * ```typescript
+ * const app = await wireUp(appCircuit);
+ * // closes pools, timers and sockets of the created units
+ * await app.shutdown();
+ * ```
+ *
+ * @throws {MissingInputsError} When inputs declared with a `defineInputs`
+ *    schema are not supplied
+ * @throws {InvalidInputsError} When supplied inputs fail their validators
+ * @throws {InvalidOverrideError} When an override doesn't replace a unit
+ *
  * @public
  * @since 1.0.0
  */
 export function wireUp<C extends BulkCircuitDef>(
   circuit: C,
   inputs?: C["__inputs"],
+  options?: WireUpOptions<C>,
 ): WiredUp<C> {
-  inputs = inputs ?? {};
-
-  const inputDefinitions = mapBlocks(
-    Object.fromEntries(
-      Object.keys(inputs).map((key) => [key, defineBlock(inputs[key])]),
-    ),
+  const inputDefinitions = mapInputs(inputs ?? {});
+  const { missing, invalid } = findInputErrors(
+    mapInputs(circuit.__inputs),
+    inputDefinitions,
   );
 
-  const rootInputBlock = extractUnits(inputs);
-
-  if (Object.keys(rootInputBlock).length) {
-    inputDefinitions[""] = rootInputBlock;
-  }
+  if (missing.length) throw new MissingInputsError(missing);
+  if (invalid.length) throw new InvalidInputsError(invalid);
 
   const context = createContext({
     __isCircuit: true,
     __hub: circuit.__hub,
-    __inputs: inputDefinitions,
+    __inputs: {
+      ...inputDefinitions,
+      ...mountPluginInputs(circuit.__pluginInputs ?? new Map()),
+    },
     // __outputs: {},
     __pluginAdapters: circuit.__pluginAdapters,
+    __rules: circuit.__rules,
   });
 
   context.adapters = circuit.__pluginAdapters;
+  context.outputs = circuit.__pluginOutputs ?? new Map();
+  context.overrides = mapOverrides(circuit, options?.overrides ?? {}, true);
 
   if (hasAsyncKeys(circuit["__hub"])) {
     // This will cause wireUp to return a promise that resolves
     // when all async factories are resolved
-    return resolveAsyncFactories(context).then(() => {
-      return getBlockWire("", context);
+    return resolveAsyncFactories(context, options?.concurrency).then(() => {
+      return createApp(context, circuit);
     }) as WiredUp<C>;
   }
 
-  return getBlockWire("", context) as WiredUp<C>;
+  return createApp(context, circuit) as WiredUp<C>;
+}
+
+/**
+ * Flattens the input blocks supplied by value to the plugged circuits, keyed
+ * by their path in the host. Only the blocks of the plugin can read them.
+ */
+function mountPluginInputs(inputs: InputsMap): Rehashmap {
+  const mounted: Rehashmap = {};
+
+  inputs.forEach((blocks, mount) => {
+    Object.keys(blocks).forEach((path) => {
+      mounted[path ? `${mount}.${path}` : mount] = blocks[path];
+    });
+  });
+
+  return mounted;
+}
+
+function createApp<C extends BulkCircuitDef>(
+  context: Context<C>,
+  circuit: BulkCircuitDef,
+): WiredApp<C> {
+  // reads of the app are not dependencies, they are not traced
+  const readBlock = createBlockReader("", context);
+  const read = (key?: string) => flagAppReads(context, readBlock(key));
+  const shutdown = () => disposeUnits(context);
+  const app = Object.assign((key?: string) => read(key), {
+    shutdown,
+    createScope: (overrides?: UnitOverrides<C>) =>
+      createScope(context, overrides),
+    $graph: () => buildGraph(circuit, context.trace),
+  });
+
+  if (asyncDispose) {
+    Object.defineProperty(app, asyncDispose, { value: shutdown });
+  }
+
+  return app as unknown as WiredApp<C>;
+}
+
+/** Blocks returned by the apps, by the block they wrap */
+const appBlocks = new WeakMap<object, unknown>();
+
+/**
+ * Wraps a block read by the app to flag the reads of its units, telling the
+ * app apart from the singletons reading scoped units once created.
+ */
+function flagAppReads(context: Context<BulkCircuitDef>, block: unknown) {
+  if (typeof block !== "object" || block === null) return block;
+
+  if (!appBlocks.has(block)) {
+    const proxy = new Proxy(block, {
+      get(target, prop) {
+        const appRead = context.appRead;
+        context.appRead = true;
+
+        try {
+          return Reflect.get(target, prop);
+        } finally {
+          context.appRead = appRead;
+        }
+      },
+    });
+
+    appBlocks.set(block, proxy);
+  }
+
+  return appBlocks.get(block);
+}
+
+function createScope<C extends BulkCircuitDef>(
+  context: Context<C>,
+  overrides: UnitOverrides<C> = {},
+): WiredScope<C> {
+  const scope: Context<C> = {
+    ...createContext(context.circuit),
+    // shared with the app
+    unit: context.unit,
+    adapters: context.adapters,
+    outputs: context.outputs,
+    pending: context.pending,
+    waiting: context.waiting,
+    trace: context.trace,
+    root: context,
+    overrides: mapOverrides(context.circuit, overrides, false),
+  };
+
+  const read = createBlockReader("", scope);
+  const dispose = () => disposeUnits(scope);
+  const app = Object.assign((key?: string) => read(key), { dispose });
+
+  if (asyncDispose) {
+    Object.defineProperty(app, asyncDispose, { value: dispose });
+  }
+
+  return app as unknown as WiredScope<C>;
+}
+
+/**
+ * Flattens overrides by unit path, they must replace units of the hub.
+ * Async factories are resolved by `wireUp`, so they can only replace async
+ * factories when wiring up.
+ */
+function mapOverrides(
+  circuit: BulkCircuitDef,
+  overrides: Record<string, Hashmap | undefined>,
+  wiringUp: boolean,
+): Map<string, unknown> {
+  const mapped = new Map<string, unknown>();
+
+  Object.keys(overrides).forEach((blockPath) => {
+    const units = overrides[blockPath] ?? {};
+    const block = circuit.__hub[blockPath];
+
+    Object.keys(units).forEach((unit) => {
+      const path = blockPath ? `${blockPath}.${unit}` : unit;
+
+      if (!block || !(unit in block)) {
+        throw new InvalidOverrideError(path, "unknownUnit");
+      }
+
+      if (
+        isAsyncFactory(units[unit]) &&
+        !(wiringUp && isAsyncFactory(block[unit]))
+      ) {
+        throw new InvalidOverrideError(path, "asyncFactory");
+      }
+
+      mapped.set(path, units[unit]);
+    });
+  });
+
+  return mapped;
+}
+
+/**
+ * Disposes the units created in the context and clears their caches, so the
+ * disposed units are created again if they are read afterwards. The units of
+ * the app are shared with its scopes, only the app clears them.
+ */
+async function disposeUnits(context: Context<BulkCircuitDef>): Promise<void> {
+  const disposers = context.disposers.splice(0).reverse();
+  const errors: unknown[] = [];
+
+  context.scopedUnit.clear();
+  context.proxy.clear();
+  context.localProxy.clear();
+  if (!context.root) context.unit.clear();
+
+  for (const dispose of disposers) {
+    try {
+      await dispose();
+    } catch (error) {
+      errors.push(error);
+    }
+  }
+
+  if (errors.length) throw new DisposeError(errors);
 }
 
 /** Check if any of the definitions are async factories */
@@ -239,42 +610,293 @@ function hasAsyncKeys(blockDefs: Hashmap): boolean {
   });
 }
 
+/**
+ * Resolves the async factories of the hub concurrently. A factory that reads
+ * another async unit through its wire waits for it and runs again, the units
+ * listed in its `dependsOn` option are awaited before its first run.
+ */
 async function resolveAsyncFactories(
   context: Context<BulkCircuitDef>,
+  concurrency = Infinity,
 ): Promise<void> {
-  const defs = context.circuit.__hub;
-  const blockKeys = Object.keys(defs);
+  const factories = collectAsyncFactories(
+    context.circuit.__hub,
+    context.overrides,
+  );
+  const limit = createLimit(concurrency);
+  const settlers = new Map<string, Settler>();
 
-  for await (const blockKey of blockKeys) {
-    const block = defs[blockKey];
+  factories.forEach(({ path }) => {
+    const pending = new Promise((resolve, reject) => {
+      settlers.set(path, { resolve, reject });
+    });
+    // failures are reported by the factory itself, not by its readers
+    pending.catch(() => {});
+    context.pending.set(path, pending);
+  });
 
-    if (!isHashmap(block)) continue;
+  const results = await Promise.allSettled(
+    factories.map(async (factory) => {
+      const settler = settlers.get(factory.path) as Settler;
+
+      try {
+        const resolved = await resolveAsyncFactory(context, factory, limit);
+        registerDisposer(context, factory.item, resolved);
+        context.unit.set(factory.path, resolved);
+        context.trace.created.add(factory.path);
+        context.pending.delete(factory.path);
+        settler.resolve(resolved);
+      } catch (error) {
+        const failure =
+          error instanceof WiremapError
+            ? error
+            : new AsyncResolutionError(factory.path, error);
+        settler.reject(failure);
+        throw failure;
+      }
+    }),
+  );
 
-    const keys = Object.keys(block);
+  const failed = results.find(
+    (result): result is PromiseRejectedResult => result.status === "rejected",
+  );
+  if (failed) {
+    // the app is never returned, the units created so far are disposed here.
+    // The failure of wireUp is the one reported
+    await disposeUnits(context).catch(() => {});
+    throw failed.reason;
+  }
+}
 
-    for await (const key of keys) {
-      const item = block[key];
+interface AsyncFactoryEntry {
+  path: string;
+  blockKey: string;
+  item: unknown;
+}
 
-      if (!isAsyncFactory(item)) continue;
+interface Settler {
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
 
-      const wire = context.wire.has(blockKey)
-        ? context.wire.get(blockKey)
-        : getBlockWire(blockKey, context);
+type Limit = <T>(task: () => Promise<T>) => Promise<T>;
 
-      let resolved;
+async function resolveAsyncFactory(
+  context: Context<BulkCircuitDef>,
+  { path, blockKey, item }: AsyncFactoryEntry,
+  limit: Limit,
+): Promise<unknown> {
+  const wire = (
+    context.wire.has(blockKey)
+      ? context.wire.get(blockKey)
+      : getBlockWire(blockKey, context)
+  ) as (key?: string) => Hashmap;
+
+  // declared dependencies are awaited first, sparing the factory a run
+  const dependencies = getUnitDependencies(item);
+
+  for (const key of Object.keys(dependencies)) {
+    for (const unit of dependencies[key]) {
+      const pending = readPending(context, path, () => wire(key)[unit]);
+      if (pending) await awaitDependency(context, path, pending);
+    }
+  }
 
-      if (isAsyncFactoryFunc(item)) {
-        resolved = await item(wire);
-      } else if (isAsyncFactoryDef(item)) {
-        resolved = await item.__unit(wire);
-      }
+  while (true) {
+    const reads: PendingUnitError[] = [];
+    const trackedWire = trackPendingReads(wire, reads);
+    let resolved: unknown;
+    let failure: unknown;
+    let failed = false;
+
+    try {
+      resolved = await limit(() =>
+        runAsyncFactory(context, path, item, trackedWire),
+      );
+    } catch (error) {
+      failed = true;
+      failure = error;
+    }
+
+    if (!reads.length) {
+      if (failed) throw failure;
+      return resolved;
+    }
+
+    // the factory read async units before they were resolved, even if it
+    // caught the error: it runs again once they are, its value is discarded
+    if (!failed) await getUnitDisposer(item, resolved)?.();
 
-      const finalKey = blockKey === "" ? key : `${blockKey}.${key}`;
-      context.unit.set(finalKey, resolved);
+    for (const pending of reads) {
+      await awaitDependency(context, path, pending);
     }
   }
 }
 
+/** Runs an async factory, its synchronous part is under construction */
+function runAsyncFactory(
+  context: Context<BulkCircuitDef>,
+  path: string,
+  item: unknown,
+  wire: (key?: string) => Hashmap,
+): Promise<unknown> {
+  context.resolving.push(path);
+
+  try {
+    if (isAsyncFactoryFunc(item)) return item(wire);
+    if (isAsyncFactoryDef(item)) return item.__unit(wire);
+    return Promise.resolve();
+  } finally {
+    context.resolving.pop();
+  }
+}
+
+/**
+ * Wraps the wire of an async factory to record the async units it reads
+ * before they are resolved, during the whole run of the factory.
+ */
+function trackPendingReads(
+  wire: (key?: string) => Hashmap,
+  reads: PendingUnitError[],
+): (key?: string) => Hashmap {
+  const tracked = new WeakMap<Hashmap, Hashmap>();
+
+  return (key) => {
+    const block = wire(key);
+    if (typeof block !== "object" || block === null) return block;
+
+    if (!tracked.has(block)) {
+      const proxy = new Proxy(block, {
+        get(target, prop) {
+          try {
+            return Reflect.get(target, prop);
+          } catch (error) {
+            if (error instanceof PendingUnitError) reads.push(error);
+            throw error;
+          }
+        },
+      });
+
+      tracked.set(block, proxy);
+    }
+
+    return tracked.get(block) as Hashmap;
+  };
+}
+
+/**
+ * Waits for the async unit an async factory read before it was resolved.
+ * Throws a `CircularDependencyError` when the unit waits for the factory.
+ */
+async function awaitDependency(
+  context: Context<BulkCircuitDef>,
+  path: string,
+  pending: PendingUnitError,
+): Promise<void> {
+  const dependency = pending.unitPath;
+  const start = pending.resolving.indexOf(path);
+  // sync units read on the way to the dependency
+  const route = [...pending.resolving.slice(start + 1), dependency];
+  const cycle = findWaitingCycle(context.waiting, path, route);
+
+  if (cycle) throw new CircularDependencyError(cycle);
+
+  context.waiting.set(path, route);
+
+  try {
+    await context.pending.get(dependency);
+  } finally {
+    context.waiting.delete(path);
+  }
+}
+
+/** Reads on behalf of an async factory, returns the unit still pending if any */
+function readPending(
+  context: Context<BulkCircuitDef>,
+  path: string,
+  read: () => unknown,
+): PendingUnitError | undefined {
+  context.resolving.push(path);
+
+  try {
+    read();
+    return;
+  } catch (error) {
+    if (!(error instanceof PendingUnitError)) throw error;
+    return error;
+  } finally {
+    context.resolving.pop();
+  }
+}
+
+/**
+ * Follows the units the end of the route is waiting for. Returns the chain of
+ * unit paths when it leads back to the unit, it would wait forever.
+ */
+function findWaitingCycle(
+  waiting: Map<string, string[]>,
+  unit: string,
+  route: string[],
+): string[] | undefined {
+  const chain = [unit, ...route];
+  let current = route[route.length - 1];
+
+  while (current !== unit) {
+    const next = waiting.get(current);
+    if (!next) return;
+    chain.push(...next);
+    current = next[next.length - 1];
+  }
+
+  return chain;
+}
+
+function collectAsyncFactories(
+  defs: Hashmap,
+  overrides: Map<string, unknown>,
+): AsyncFactoryEntry[] {
+  return Object.keys(defs).flatMap((blockKey) => {
+    const block = defs[blockKey];
+
+    if (!isHashmap(block)) return [];
+
+    return Object.keys(block)
+      .map((key) => {
+        const path = blockKey === "" ? key : `${blockKey}.${key}`;
+        const item = overrides.has(path) ? overrides.get(path) : block[key];
+        return { path, blockKey, item };
+      })
+      .filter(({ item }) => isAsyncFactory(item));
+  });
+}
+
+/** Runs at most `concurrency` tasks at the same time */
+function createLimit(concurrency: number): Limit {
+  if (!(concurrency >= 1)) {
+    throw new InvalidConcurrencyError(concurrency);
+  }
+
+  let running = 0;
+  const queue: Array<() => void> = [];
+
+  return async (task) => {
+    if (running < concurrency) {
+      running++;
+    } else {
+      // the slot is handed over by the task that finishes
+      await new Promise<void>((resolve) => queue.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) next();
+      else running--;
+    }
+  };
+}
+
 function isAsyncFactory(item: unknown): boolean {
   return isAsyncFactoryDef(item) || isAsyncFactoryFunc(item);
 }
@@ -283,9 +905,18 @@ function createContext<C extends BulkCircuitDef>(circuit: C): Context<C> {
   return {
     circuit,
     unit: new Map(),
+    scopedUnit: new Map(),
     wire: new Map(),
     proxy: new Map(),
     localProxy: new Map(),
     adapters: {} as AdaptersMap,
+    outputs: new Map(),
+    resolving: [],
+    appRead: false,
+    pending: new Map(),
+    waiting: new Map(),
+    disposers: [],
+    overrides: new Map(),
+    trace: { reads: new Map(), created: new Set() },
   };
 }
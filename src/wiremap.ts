@@ -1,7 +1,66 @@
-export type { InferWire, InferOutput } from "./wire-up.ts";
+export type {
+  InferWire,
+  InferOutput,
+  WiredApp,
+  WiredScope,
+  UnitOverrides,
+  WireUpOptions,
+} from "./wire-up.ts";
+export type { CircuitProblem, CircuitProblemKind } from "./validate.ts";
+export type {
+  DeclaredInputs,
+  InferInputs,
+  InputRequirement,
+  InputsDescriptor,
+  InputsSchema,
+  InputValidator,
+} from "./circuit.ts";
+export type { InvalidInput, MissingInput } from "./errors.ts";
+export type { Lifetime, UnitDependencies, UnitKind } from "./unit.ts";
+export type {
+  CircuitGraph,
+  GraphBlock,
+  GraphEdge,
+  GraphPlugin,
+  GraphUnit,
+} from "./inspect.ts";
+export type { DiagramSource } from "./diagram.ts";
+export type { AccessRule } from "./rules.ts";
+export type { BlockOptions } from "./block.ts";
+export type { PlugOptions } from "./plug.ts";
+export type {
+  FakeBlocks,
+  MockCircuitOptions,
+  MockUnitOptions,
+} from "./mock.ts";
+export type { SpyCall, SpyWire } from "./spy.ts";
 export { defineUnit } from "./unit.ts";
 export { defineBlock, tagBlock } from "./block.ts";
-export { defineCircuit, defineInputs } from "./circuit.ts";
+export { defineCircuit, defineInputs, listInputs } from "./circuit.ts";
 export { plug } from "./plug.ts";
 export { wireUp } from "./wire-up.ts";
-export { mockUnit } from "./mock.ts";
+export { inspect } from "./inspect.ts";
+export { toDot, toMermaid } from "./diagram.ts";
+export { mockBlock, mockCircuit, mockUnit } from "./mock.ts";
+export { spyWire } from "./spy.ts";
+export { validateCircuit } from "./validate.ts";
+export {
+  AsyncResolutionError,
+  BlockNotFoundError,
+  CircularDependencyError,
+  DisposeError,
+  ForbiddenAccessError,
+  InvalidConcurrencyError,
+  InvalidInputsError,
+  InvalidOutputError,
+  InvalidOverrideError,
+  InvalidUnitDefinitionError,
+  MissingFakeError,
+  MissingInputsError,
+  OutOfScopeError,
+  PendingUnitError,
+  PluginAdapterError,
+  UnitNotFoundError,
+  UnknownFakeError,
+  WiremapError,
+} from "./errors.ts";
@@ -6,7 +6,11 @@ import {
   getBlockUnitKeys,
   hasBlocksOrPlugins,
   isBlock,
+  isPrivateBlock,
+  isRelativePath,
   mapBlocks,
+  resolveRelativePath,
+  tagBlock,
 } from "../src/block.ts";
 import { defineUnit } from "../src/unit.ts";
 
@@ -18,6 +22,20 @@ Deno.test("block: defineBlock", () => {
   assertEquals(b1.a, 1);
 });
 
+Deno.test("block: private blocks", () => {
+  const b1 = defineBlock({ a: 1 }, { isPrivate: true });
+  assertEquals(b1.$, { __isBlock: true, isPrivate: true });
+  assertEquals(isPrivateBlock(b1), true);
+
+  const b2 = defineBlock({ $: tagBlock(), a: 1 }, { isPrivate: true });
+  assertEquals(b2.$, { __isBlock: true, isPrivate: true });
+
+  assertEquals(isPrivateBlock({ $: tagBlock({ isPrivate: true }) }), true);
+  assertEquals(isPrivateBlock({ $: tagBlock() }), false);
+  assertEquals(isPrivateBlock(defineBlock({ a: 1 })), false);
+  assertEquals(isPrivateBlock({ $: { isPrivate: true } }), false);
+});
+
 Deno.test("block: isBlock", () => {
   const b1 = defineBlock({
     a: 1,
@@ -210,3 +228,23 @@ Deno.test("block: mapBlocks", () => {
     "include circuits in blocks",
   );
 });
+
+Deno.test("block: relative paths", () => {
+  assertEquals(isRelativePath(".."), true);
+  assertEquals(isRelativePath("../repo"), true);
+  assertEquals(isRelativePath("./child"), true);
+  assertEquals(isRelativePath("."), false);
+  assertEquals(isRelativePath("user.repo"), false);
+  assertEquals(isRelativePath(""), false);
+
+  assertEquals(resolveRelativePath("user.service", ".."), "user");
+  assertEquals(resolveRelativePath("user.service", "../repo"), "user.repo");
+  assertEquals(resolveRelativePath("user.service", "../.."), "");
+  assertEquals(resolveRelativePath("user.service", "../../post"), "post");
+  assertEquals(
+    resolveRelativePath("user", "./service.cache"),
+    "user.service.cache",
+  );
+  assertEquals(resolveRelativePath("", "./user/service"), "user.service");
+  assertEquals(resolveRelativePath("user", "../.."), undefined);
+});
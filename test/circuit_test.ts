@@ -1,10 +1,15 @@
 import { assertEquals } from "@std/assert";
 
+import type { Hashmap } from "../src/common.ts";
+import { tagBlock } from "../src/block.ts";
 import {
   isCircuit,
   defineCircuit,
-  extractPluginAdapters,
+  defineInputs,
+  extractPlugins,
+  listInputs,
 } from "../src/circuit.ts";
+import { plug } from "../src/plug.ts";
 
 Deno.test("block: isCircuit", () => {
   assertEquals(
@@ -102,18 +107,18 @@ Deno.test("block: isCircuit", () => {
   );
 });
 
-Deno.test("block: extactPluginAdapters", () => {
+Deno.test("block: extractPlugins adapters", () => {
   assertEquals(
-    extractPluginAdapters({
+    extractPlugins({
       a: 1,
       $b: { a: 1 },
       c: { a: 1, $: { __isBlock: true } },
-    }),
+    }).adapters,
     new Map(),
   );
 
   assertEquals(
-    extractPluginAdapters({
+    extractPlugins({
       a: 1,
       $b: { a: 1 },
       c: { a: 1, $: { __isBlock: true } },
@@ -139,7 +144,7 @@ Deno.test("block: extactPluginAdapters", () => {
           __pluginAdapters: new Map(),
         },
       },
-    }),
+    }).adapters,
     new Map([
       ["thePlugin", {}],
       ["other", {}],
@@ -147,7 +152,7 @@ Deno.test("block: extactPluginAdapters", () => {
   );
 
   assertEquals(
-    extractPluginAdapters({
+    extractPlugins({
       a: 1,
       $b: { a: 1 },
       $good: {
@@ -173,10 +178,105 @@ Deno.test("block: extactPluginAdapters", () => {
           },
         },
       },
-    }),
+    }).adapters,
     new Map([
       ["good.circ", {}],
       ["good.circ.other", {}],
     ]),
   );
 });
+
+Deno.test("circuit: defineInputs", () => {
+  type Deps = { $db: { find: () => string }; port: number };
+
+  const typeOnly = defineInputs<Deps>();
+  const schema = defineInputs<Deps>({ $db: { find: true }, port: true });
+
+  assertEquals<Hashmap>(typeOnly, {});
+  assertEquals<Hashmap>(schema, { $db: { find: true }, port: true });
+
+  // the declared type is the type of the inputs of the circuit
+  const circuit = defineCircuit({}, schema);
+  type Inputs = typeof circuit.__inputs;
+  const find: Inputs["db"]["find"] = () => "john";
+  // @ts-expect-error port is a number
+  const port: Inputs[""]["port"] = "80";
+
+  assertEquals([find(), port], ["john", "80"]);
+});
+
+Deno.test("circuit: defineInputs infers the inputs from a descriptor", () => {
+  const isString = (value: unknown): value is string =>
+    typeof value === "string";
+  const isPort = (value: unknown) => Number.isInteger(value);
+
+  const inputs = defineInputs({
+    $config: { dbUrl: isString, port: isPort },
+    $repo: { save: true },
+  });
+
+  assertEquals<Hashmap>(inputs, {
+    $config: { dbUrl: isString, port: isPort },
+    $repo: { save: true },
+  });
+  assertEquals(inputs.$config.dbUrl, isString, "the value is the descriptor");
+
+  // units checked by a type guard get the guarded type
+  const circuit = defineCircuit({}, inputs);
+  type Inputs = typeof circuit.__inputs;
+  const dbUrl: Inputs["config"]["dbUrl"] = "db://localhost";
+  const port: Inputs["config"]["port"] = "any";
+  // @ts-expect-error dbUrl is a string
+  const wrong: Inputs["config"]["dbUrl"] = 80;
+
+  assertEquals([dbUrl, port, wrong], ["db://localhost", "any", 80]);
+});
+
+Deno.test("circuit: listInputs", () => {
+  const isString = (value: unknown): value is string =>
+    typeof value === "string";
+
+  const circuit = defineCircuit(
+    { service: { $: tagBlock(), run: () => "run" } },
+    defineInputs({
+      apiKey: isString,
+      $config: { dbUrl: isString },
+      $repo: { find: true, save: true },
+    }),
+  );
+
+  assertEquals(listInputs(circuit), [
+    { block: "config", unit: "dbUrl", validator: isString },
+    { block: "repo", unit: "find" },
+    { block: "repo", unit: "save" },
+    { block: "", unit: "apiKey", validator: isString },
+  ]);
+
+  assertEquals(
+    listInputs(defineCircuit({ service: { $: tagBlock(), run: () => 1 } }, {})),
+    [],
+  );
+});
+
+Deno.test("circuit: rules of plugged circuits apply to their blocks", () => {
+  const storeCircuit = defineCircuit(
+    { repo: { $: tagBlock(), find: () => "row" } },
+    {},
+    { rules: [{ to: "repo", only: "service" }] },
+  );
+
+  const circuit = defineCircuit(
+    {
+      $shop: { store: plug(storeCircuit, {}) },
+      other: plug(storeCircuit, {}),
+    },
+    {},
+    { rules: [{ from: "shop", deny: "other" }] },
+  );
+
+  assertEquals(circuit.__rules, [
+    { from: "shop", deny: "other" },
+    { to: "shop.store.repo", only: "shop.store.service" },
+    { to: "other.repo", only: "other.service" },
+  ]);
+});
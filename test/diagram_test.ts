@@ -0,0 +1,175 @@
+import { assertEquals } from "@std/assert";
+
+import { toDot, toMermaid } from "../src/diagram.ts";
+import {
+  defineCircuit,
+  defineInputs,
+  defineUnit,
+  plug,
+  tagBlock,
+  wireUp,
+} from "../src/wiremap.ts";
+import { inspect } from "../src/inspect.ts";
+
+type UserWire = (key: "repository") => { find: () => string };
+
+interface PostWire {
+  (key: "user.service"): { getUser: () => string };
+  (key: "."): { port: number };
+  (key: "config"): { port: number };
+}
+
+const userCircuit = defineCircuit(
+  {
+    service: {
+      $: tagBlock(),
+      getUser: defineUnit(
+        (w: UserWire) => {
+          const repository = w("repository");
+          return () => repository.find();
+        },
+        { is: "factory" },
+      ),
+    },
+  },
+  defineInputs<{ repository: { find: () => string } }>(),
+);
+
+const circuit = defineCircuit(
+  {
+    database: {
+      $: tagBlock(),
+      find: () => "john",
+      connection: defineUnit(() => ({}), { is: "factory", isPrivate: true }),
+    },
+    user: plug(userCircuit, { repository: "database" }),
+    post: {
+      $: tagBlock(),
+      service: {
+        $: tagBlock(),
+        port: defineUnit((w: PostWire) => w("config").port, {
+          is: "factory",
+        }),
+        describe: defineUnit(
+          function (this: PostWire) {
+            return `${this("user.service").getUser()}:${this(".").port}`;
+          },
+          { is: "bound" },
+        ),
+      },
+    },
+  },
+  defineInputs({ config: { port: true } }),
+);
+
+Deno.test("diagram: toDot draws blocks, plugins and inputs", () => {
+  assertEquals(
+    toDot(circuit),
+    [
+      "digraph circuit {",
+      "  compound=true;",
+      "  node [shape=box];",
+      '  "database" [label=<<B>database</B><BR/>find<BR/><I>connection</I>>];',
+      '  "post.service" [label=<<B>post.service</B><BR/>port<BR/>describe>];',
+      "  subgraph cluster_0 {",
+      '    label="user";',
+      "    style=dashed;",
+      '    "user.service" [label=<<B>user.service</B><BR/>getUser>];',
+      "  }",
+      '  "input:config" [label=<<B>config</B><BR/>port>, shape=parallelogram];',
+      '  "user.service" -> "database" [label="repository", ltail=cluster_0, style=dashed];',
+      "}",
+    ].join("\n"),
+  );
+});
+
+Deno.test("diagram: toMermaid draws the edges observed in an app", () => {
+  const app = wireUp(circuit, { config: { port: 80 } } as never);
+  app("post.service").describe();
+
+  assertEquals(
+    toMermaid(app),
+    [
+      "flowchart LR",
+      '  b0["<b>database</b><br/>find<br/><i>connection</i>"]',
+      '  b1["<b>post.service</b><br/>port<br/>describe"]',
+      '  subgraph p2 ["user"]',
+      '    b3["<b>user.service</b><br/>getUser"]',
+      "  end",
+      '  i4[/"<b>config</b><br/>port"/]',
+      '  p2 -.->|"repository"| b0',
+      "  b1 --> b3",
+      '  b3 -->|"getUser"| b0',
+      '  b1 -->|"port"| i4',
+    ].join("\n"),
+  );
+
+  assertEquals(toDot(app.$graph()), toDot(app));
+});
+
+Deno.test("diagram: nested plugins and unit adapters", () => {
+  const storeCircuit = defineCircuit(
+    { store: { $: tagBlock(), get: () => "value" } },
+    defineInputs<{ source: { read: () => string } }>(),
+  );
+
+  const cacheCircuit = defineCircuit(
+    { cache: plug(storeCircuit, { source: { read: "origin.fetch" } }) },
+    defineInputs<{ origin: { fetch: () => string } }>(),
+  );
+
+  const graph = inspect(
+    defineCircuit(
+      {
+        api: { $: tagBlock(), fetch: () => "data" },
+        cached: plug(cacheCircuit, { origin: "api" }),
+      },
+      {},
+    ),
+  );
+
+  assertEquals(
+    toMermaid(graph),
+    [
+      "flowchart LR",
+      '  b0["<b>api</b><br/>fetch"]',
+      '  subgraph p1 ["cached"]',
+      '    subgraph p2 ["cached.cache"]',
+      '      b3["<b>cached.cache.store</b><br/>get"]',
+      "    end",
+      "  end",
+      '  p1 -.->|"origin"| b0',
+      '  p2 -.->|"source.read"| b0',
+    ].join("\n"),
+  );
+});
+
+Deno.test("diagram: adapters pointing to outputs of plugged circuits", () => {
+  const libCircuit = defineCircuit(
+    { service: { $: tagBlock(), run: () => "run" } },
+    {},
+    { outputs: { api: "service" } },
+  );
+
+  const depCircuit = defineCircuit(
+    { job: { $: tagBlock(), start: () => "start" } },
+    defineInputs<{ lib: { run: () => string } }>(),
+  );
+
+  const dot = toDot(
+    defineCircuit(
+      {
+        lib: plug(libCircuit),
+        dep: plug(depCircuit, { lib: "lib.api" }),
+      },
+      {},
+    ),
+  );
+
+  assertEquals(
+    dot.split("\n").filter((line) => line.includes("->")),
+    [
+      '  "dep.job" -> "lib.service" [label="lib", ltail=cluster_1, style=dashed];',
+    ],
+  );
+});
@@ -0,0 +1,138 @@
+import { assertEquals } from "@std/assert";
+
+import { inspect } from "../src/inspect.ts";
+import {
+  defineCircuit,
+  defineInputs,
+  defineUnit,
+  plug,
+  tagBlock,
+  wireUp,
+} from "../src/wiremap.ts";
+
+type UserWire = (key: "repository") => { find: () => string };
+
+interface PostWire {
+  (key: "user.service"): { getUser: () => string };
+  (key: "."): { port: number };
+  (key: "config"): { port: number };
+}
+
+const userCircuit = defineCircuit(
+  {
+    service: {
+      $: tagBlock(),
+      getUser: defineUnit(
+        (w: UserWire) => {
+          const repository = w("repository");
+          return () => repository.find();
+        },
+        { is: "factory" },
+      ),
+    },
+  },
+  defineInputs<{ repository: { find: () => string } }>(),
+);
+
+const circuit = defineCircuit(
+  {
+    database: {
+      $: tagBlock(),
+      find: () => "john",
+      connection: defineUnit(() => ({}), { is: "factory", isPrivate: true }),
+    },
+    user: plug(userCircuit, { repository: "database" }),
+    post: {
+      $: tagBlock(),
+      service: {
+        $: tagBlock(),
+        port: defineUnit((w: PostWire) => w("config").port, {
+          is: "factory",
+        }),
+        describe: defineUnit(
+          function (this: PostWire) {
+            return `${this("user.service").getUser()}:${this(".").port}`;
+          },
+          { is: "bound" },
+        ),
+      },
+    },
+  },
+  defineInputs({ config: { port: true } }),
+);
+
+Deno.test("inspect: blocks, units, plugins and inputs", () => {
+  const graph = inspect(circuit);
+
+  assertEquals(
+    graph.blocks.filter((block) => block.path !== ""),
+    [
+      { path: "database", units: ["find", "connection"] },
+      { path: "user.service", units: ["getUser"], plugin: "user" },
+      { path: "post.service", units: ["port", "describe"] },
+    ],
+  );
+
+  assertEquals(
+    graph.units.find((unit) => unit.path === "database.connection"),
+    {
+      path: "database.connection",
+      block: "database",
+      name: "connection",
+      kind: "factory",
+      lifetime: "singleton",
+      isPrivate: true,
+      traced: false,
+    },
+  );
+  assertEquals(
+    graph.units.map((unit) => unit.kind),
+    ["plain", "factory", "factory", "factory", "bound"],
+  );
+
+  assertEquals(
+    graph.plugins.map(({ path, adapters }) => ({ path, adapters })),
+    [{ path: "user", adapters: { repository: "database" } }],
+  );
+  assertEquals(graph.inputs, [{ block: "config", unit: "port" }]);
+  assertEquals(graph.edges, []);
+});
+
+Deno.test("inspect: app graph traces the blocks read", () => {
+  const app = wireUp(circuit, { config: { port: 80 } } as never);
+  const describe = app("post.service").describe;
+
+  assertEquals(app.$graph().edges, [], "reads of the app are not traced");
+
+  assertEquals(describe(), "john:80");
+  assertEquals(describe(), "john:80");
+
+  const graph = app.$graph();
+
+  assertEquals(graph.edges, [
+    { from: "post.service", to: "user.service", input: false },
+    {
+      from: "user.service",
+      unit: "user.service.getUser",
+      to: "database",
+      input: false,
+    },
+    { from: "post.service", to: "post.service", input: false },
+    {
+      from: "post.service",
+      unit: "post.service.port",
+      to: "config",
+      input: true,
+    },
+  ]);
+
+  assertEquals(
+    graph.units.filter((unit) => unit.traced).map((unit) => unit.path),
+    [
+      "database.find",
+      "user.service.getUser",
+      "post.service.port",
+      "post.service.describe",
+    ],
+  );
+});
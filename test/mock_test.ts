@@ -1,7 +1,12 @@
-import { assertEquals } from "@std/assert";
+import { assertEquals, assertThrows } from "@std/assert";
 
-import { mockUnit } from "../src/mock.ts";
+import { mockBlock, mockCircuit, mockUnit } from "../src/mock.ts";
 import { defineUnit } from "../src/unit.ts";
+import { tagBlock } from "../src/block.ts";
+import { defineCircuit } from "../src/circuit.ts";
+import { spyWire } from "../src/spy.ts";
+import { MissingFakeError, UnknownFakeError } from "../src/errors.ts";
+import type { InferWire } from "../src/wire-up.ts";
 
 Deno.test("mockUnit: bound function", () => {
   type W = <K extends keyof typeof fakeBlocks>(k: K) => (typeof fakeBlocks)[K];
@@ -214,3 +219,257 @@ Deno.test("mockUnit: async factory definition", async () => {
     isAdmin: true,
   });
 });
+
+Deno.test("mockUnit: strict mode throws on missing blocks", () => {
+  type W = (k: string) => { getUser(id: string): string };
+  function getAuthor(this: W, id: string) {
+    return this("user.service").getUser(id);
+  }
+  getAuthor.is = "bound" as const;
+
+  const lenient = mockUnit(getAuthor, {});
+  assertThrows(() => lenient("1"), TypeError);
+
+  const strict = mockUnit(getAuthor, {}, { strict: true });
+  const error = assertThrows(
+    () => strict("1"),
+    MissingFakeError,
+    'Unit "getAuthor" reads block "user.service", which is not in the fake blocks',
+  );
+  assertEquals(
+    [error.unitName, error.blockPath, error.unit],
+    ["getAuthor", "user.service", undefined],
+  );
+
+  assertThrows(
+    () =>
+      mockUnit(
+        defineUnit((wire: W) => wire("user.service"), { is: "factory" }),
+        {},
+        { strict: true, name: "author" },
+      ),
+    Error,
+    'Unit "author" reads block "user.service"',
+  );
+});
+
+Deno.test("mockUnit: strict mode throws on missing units", () => {
+  type W = (k: string) => { getUser(id: string): string };
+  function getAuthor(this: W, id: string) {
+    return this("user.service").getUser(id);
+  }
+  getAuthor.is = "bound" as const;
+
+  const fakeBlocks = { "user.service": { getUsr: (id: string) => id } };
+  const strict = mockUnit(getAuthor, fakeBlocks, { strict: true });
+
+  const error = assertThrows(
+    () => strict("1"),
+    MissingFakeError,
+    'Fake block "user.service" has no unit named "getUser", read by unit "getAuthor"',
+  );
+  assertEquals(
+    [error.unitName, error.blockPath, error.unit],
+    ["getAuthor", "user.service", "getUser"],
+  );
+});
+
+Deno.test("mockUnit: strict mode keeps valid fakes", async () => {
+  const fakeBlocks = { "user.service": { getUser: (id: string) => id } };
+  const wire = spyWire(fakeBlocks);
+
+  const factory = mockUnit(
+    defineUnit(
+      (w: (k: "user.service") => (typeof fakeBlocks)["user.service"]) =>
+        Promise.resolve(w("user.service")),
+      { is: "asyncFactory" },
+    ),
+    wire,
+    { strict: true },
+  );
+
+  const block = await factory;
+  assertEquals(block.getUser("1"), "1");
+  wire.assertCalledWith("user.service.getUser", "1");
+});
+
+Deno.test("mockUnit: fake blocks are typed after the wire", () => {
+  type W = InferWire<Defs, "post.service">;
+
+  const addPost = defineUnit(
+    function (this: W, title: string) {
+      this("post").repo.push({ title, author: this("user").getName() });
+      return this(".").count();
+    },
+    { is: "bound" },
+  );
+
+  const circuit = defineCircuit(
+    {
+      user: { $: tagBlock(), getName: (): string => "john" },
+      post: {
+        $: tagBlock(),
+        repo: [] as { title: string; author: string }[],
+        service: {
+          $: tagBlock(),
+          addPost,
+          count: defineUnit((w: W) => () => w("post").repo.length, {
+            is: "factory",
+          }),
+        },
+      },
+    },
+    {},
+  );
+  type Defs = typeof circuit;
+
+  const repo: { title: string; author: string }[] = [];
+  const add = mockUnit(addPost, {
+    post: { repo },
+    user: { getName: () => "jane" },
+    ".": { count: () => repo.length },
+  });
+
+  assertEquals(add("hello"), 1);
+  assertEquals(repo, [{ title: "hello", author: "jane" }]);
+
+  // @ts-expect-error getName returns a string
+  mockUnit(addPost, { user: { getName: () => 1 } });
+  // @ts-expect-error there is no block "users"
+  mockUnit(addPost, { users: { getName: () => "jane" } });
+});
+
+Deno.test("mockBlock: siblings resolve through the local wire", () => {
+  type W = InferWire<Defs, "user.service">;
+  const repo: { name: string; email: string }[] = [];
+
+  const findByEmail = defineUnit(
+    function (this: W, email: string) {
+      return this("user").repo.find((user) => user.email === email);
+    },
+    { is: "bound", isPrivate: true },
+  );
+
+  const service = {
+    $: tagBlock(),
+    findByEmail,
+    addUser: defineUnit(
+      function (this: W, name: string, email: string) {
+        if (this(".").findByEmail(email)) return false;
+        this("user").repo.push({ name, email });
+        return true;
+      },
+      { is: "bound" },
+    ),
+    count: defineUnit((w: W) => () => w("user").repo.length, {
+      is: "factory",
+    }),
+  };
+
+  const circuit = defineCircuit(
+    {
+      user: {
+        $: tagBlock(),
+        repo,
+        service,
+      },
+    },
+    {},
+  );
+  type Defs = typeof circuit;
+
+  const block = mockBlock(service, { user: { repo } });
+
+  assertEquals(block.addUser("john", "john@example.com"), true);
+  assertEquals(block.addUser("john", "john@example.com"), false);
+  assertEquals(block.count(), 1);
+  assertEquals("findByEmail" in block, false, "private units are not exposed");
+  assertThrows(
+    () => mockBlock(service, {}).count(),
+    Error,
+    'Block "user" not found',
+  );
+});
+
+Deno.test("mockBlock: relative fakes", () => {
+  type W = (key: string) => { repo: string[] };
+
+  const block = mockBlock(
+    {
+      $: tagBlock(),
+      parent: defineUnit((w: W) => w("..").repo, { is: "factory" }),
+      sibling: defineUnit((w: W) => w("../store").repo, { is: "factory" }),
+    },
+    { "..": { repo: ["parent"] }, "../store": { repo: ["store"] } },
+  );
+
+  assertEquals(block.parent, ["parent"]);
+  assertEquals(block.sibling, ["store"]);
+});
+
+Deno.test("mockBlock: async factories", async () => {
+  const block = await mockBlock(
+    {
+      $: tagBlock(),
+      db: defineUnit(() => Promise.resolve({ url: "db://test" }), {
+        is: "asyncFactory",
+      }),
+      url: defineUnit(
+        (w: () => { config: { url: string } }) => w().config.url,
+        {
+          is: "factory",
+        },
+      ),
+    },
+    { "": { config: { url: "db://fake" } } },
+  );
+
+  assertEquals(block.db, { url: "db://test" });
+  assertEquals(block.url, "db://fake");
+});
+
+Deno.test("mockCircuit: replaces blocks with fakes", () => {
+  type W = InferWire<Defs, "user.service">;
+
+  const circuit = defineCircuit(
+    {
+      user: {
+        $: tagBlock(),
+        repo: {
+          $: tagBlock(),
+          data: defineUnit(() => ["real"], { is: "factory" }),
+        },
+        service: {
+          $: tagBlock(),
+          list: defineUnit((w: W) => () => w("user.repo").data, {
+            is: "factory",
+          }),
+          count: defineUnit((w: W) => () => w(".").list().length, {
+            is: "factory",
+          }),
+        },
+      },
+    },
+    {},
+  );
+  type Defs = typeof circuit;
+
+  const app = mockCircuit(circuit, {
+    fakes: { "user.repo": { data: ["fake", "data"] } },
+  });
+
+  assertEquals(app("user.service").list(), ["fake", "data"]);
+  assertEquals(app("user.service").count(), 2);
+  assertEquals(
+    mockCircuit(circuit)("user.service").list(),
+    ["real"],
+    "the circuit is not modified",
+  );
+
+  const error = assertThrows(
+    () => mockCircuit(circuit, { fakes: { "user.nope": {} } as never }),
+    UnknownFakeError,
+    'Fake block "user.nope" doesn\'t match any block',
+  );
+  assertEquals(error.blockPath, "user.nope");
+});
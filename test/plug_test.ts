@@ -1,6 +1,18 @@
-import { assertEquals } from "@std/assert";
+import { assertEquals, assertThrows } from "@std/assert";
 
 import { plug, isPlugin } from "../src/plug.ts";
+import {
+  defineCircuit,
+  defineInputs,
+  defineUnit,
+  InvalidInputsError,
+  InvalidOutputError,
+  PluginAdapterError,
+  tagBlock,
+  validateCircuit,
+  wireUp,
+} from "../src/wiremap.ts";
+import type { InferWire } from "../src/wiremap.ts";
 
 Deno.test("plug", () => {
   const circuit = {
@@ -79,3 +91,425 @@ Deno.test("isPlugin", () => {
     true,
   );
 });
+
+Deno.test("plug: outputs restrict the blocks exposed to the host", () => {
+  type PW = InferWire<typeof storeCircuit, "service">;
+  type HW = InferWire<typeof hostCircuit, "consumer">;
+
+  const storeCircuit = defineCircuit(
+    {
+      $repo: { data: [1, 2, 3] },
+      $service: {
+        count: defineUnit((w: PW) => () => w("repo").data.length, {
+          is: "factory",
+        }),
+      },
+    },
+    {},
+    { outputs: { api: "service" } },
+  );
+
+  const hostCircuit = defineCircuit(
+    {
+      store: plug(storeCircuit),
+      $consumer: {
+        total: defineUnit((w: HW) => () => w("store.api").count(), {
+          is: "factory",
+        }),
+        leak: defineUnit(
+          // @ts-expect-error internal blocks are not part of the host paths
+          (w: HW) => () => w("store.repo").data,
+          { is: "factory" },
+        ),
+      },
+    },
+    {},
+  );
+
+  const app = wireUp(hostCircuit);
+
+  assertEquals(app("store.api").count(), 3);
+  assertEquals(app("consumer").total(), 3);
+  assertEquals(app("store.api"), app("store.api"), "output proxies are cached");
+
+  assertThrows(
+    // @ts-expect-error internal blocks are not part of the host paths
+    () => app("store.service"),
+    Error,
+    'Block "store.service" not found from block ""',
+  );
+  assertThrows(
+    () => app("consumer").leak(),
+    Error,
+    'Block "store.repo" not found from block "consumer"',
+  );
+});
+
+Deno.test(
+  "plug: outputs can expose the root block of the plugged circuit",
+  () => {
+    const circuit = defineCircuit(
+      {
+        version: "1.0.0",
+        $internal: { secret: "s3cr3t" },
+      },
+      {},
+      { outputs: { "": "" } },
+    );
+
+    const app = wireUp(defineCircuit({ lib: plug(circuit) }, {}));
+
+    assertEquals(app("lib").version, "1.0.0");
+    // @ts-expect-error internal blocks are not part of the host paths
+    assertThrows(() => app("lib.internal"));
+  },
+);
+
+Deno.test("plug: outputs must point to blocks of the circuit", () => {
+  const error = assertThrows(
+    () => defineCircuit({ $a: { b: 1 } }, {}, { outputs: { x: "nope" } }),
+    InvalidOutputError,
+    'Output "x" points to unknown block "nope"',
+  );
+  assertEquals([error.output, error.blockPath], ["x", "nope"]);
+});
+
+Deno.test("plug: nested adapters map input units to host units", () => {
+  type Users = {
+    getUser: () => string;
+    addUser: (name: string) => string;
+  };
+  type W = (key: "users") => Users;
+
+  const accountsCircuit = defineCircuit(
+    {
+      service: {
+        $: tagBlock(),
+        describe: defineUnit(
+          function (this: W) {
+            const users = this("users");
+            return `${users.getUser()}, ${users.addUser("ann")}`;
+          },
+          { is: "bound" },
+        ),
+      },
+    },
+    defineInputs<{ $users: Users }>(),
+  );
+
+  const circuit = defineCircuit(
+    {
+      user: {
+        $: tagBlock(),
+        service: { $: tagBlock(), find: (): string => "john" },
+      },
+      admin: {
+        $: tagBlock(),
+        users: { $: tagBlock(), create: (name: string) => `created ${name}` },
+      },
+      accounts: plug(accountsCircuit, {
+        users: { getUser: "user.service.find", addUser: "admin.users.create" },
+      }),
+    },
+    {},
+  );
+
+  const app = wireUp(circuit);
+
+  assertEquals(app("accounts.service").describe(), "john, created ann");
+  assertEquals(
+    app
+      .$graph()
+      .edges.filter((edge) => edge.from === "accounts.service")
+      .map((edge) => edge.to),
+    ["user.service", "admin.users"],
+  );
+
+  defineCircuit(
+    {
+      user: {
+        $: tagBlock(),
+        service: { $: tagBlock(), find: (): number => 1 },
+      },
+      admin: {
+        $: tagBlock(),
+        users: { $: tagBlock(), create: (name: string) => `created ${name}` },
+      },
+      accounts: plug(accountsCircuit, {
+        users: { getUser: "user.service.find", addUser: "admin.users.create" },
+      }),
+    },
+    // @ts-expect-error "user.service.find" doesn't return a string
+    {},
+  );
+});
+
+Deno.test("plug: a circuit plugged twice has isolated instances", () => {
+  type W = (key: "store") => { prefix: string };
+
+  let created = 0;
+
+  const cacheCircuit = defineCircuit(
+    {
+      client: {
+        $: tagBlock(),
+        id: defineUnit(() => ++created, { is: "factory" }),
+        key: defineUnit(
+          (w: W) => (name: string) => `${w("store").prefix}:${name}`,
+          {
+            is: "factory",
+          },
+        ),
+      },
+    },
+    defineInputs<{ $store: { prefix: string } }>(),
+  );
+
+  const circuit = defineCircuit(
+    {
+      session: { $: tagBlock(), prefix: "session" },
+      query: { $: tagBlock(), prefix: "query" },
+      cache: plug(cacheCircuit, { store: "session" }),
+      cacheTwo: plug(cacheCircuit, { store: "query" }),
+      client: { $: tagBlock(), name: "host client" },
+      cacheStats: {
+        $: tagBlock(),
+        describe: defineUnit(
+          function (this: (key: "client") => { name: string }) {
+            return `stats of ${this("client").name}`;
+          },
+          { is: "bound" },
+        ),
+      },
+      $infra: {
+        $caches: {
+          deep: plug(cacheCircuit, { store: "session" }),
+        },
+      },
+    },
+    {},
+  );
+
+  const app = wireUp(circuit);
+
+  assertEquals(app("cache.client").key("a"), "session:a");
+  assertEquals(app("cacheTwo.client").key("a"), "query:a");
+  assertEquals(app("infra.caches.deep.client").key("a"), "session:a");
+
+  assertEquals(app("cache.client").id, 1);
+  assertEquals(app("cacheTwo.client").id, 2);
+  assertEquals(app("infra.caches.deep.client").id, 3);
+  assertEquals(app("cache.client").id, 1, "instances are kept per mount");
+  assertEquals(
+    app("cacheStats").describe(),
+    "stats of host client",
+    "blocks sharing a prefix with a mount are not in the plugin",
+  );
+});
+
+Deno.test("plug: the root of a plugged circuit is its own", () => {
+  type W = InferWire<Defs, "service">;
+
+  const innerCircuit = defineCircuit(
+    {
+      name: "inner",
+      service: {
+        $: tagBlock(),
+        names: defineUnit(
+          function (this: W) {
+            return [this("..").name, this().name];
+          },
+          { is: "bound" },
+        ),
+      },
+    },
+    {},
+  );
+  type Defs = typeof innerCircuit;
+
+  const app = wireUp(
+    defineCircuit({ name: "host", inner: plug(innerCircuit, {}) }, {}),
+  );
+
+  assertEquals(app("inner.service").names(), ["inner", "inner"]);
+});
+
+Deno.test("plug: inputs supplied by value", () => {
+  type W = (key: "config") => { ttl: number };
+
+  const cacheCircuit = defineCircuit(
+    {
+      client: {
+        $: tagBlock(),
+        ttl: defineUnit((w: W) => w("config").ttl, { is: "factory" }),
+      },
+    },
+    defineInputs<{ $config: { ttl: number } }>({
+      $config: { ttl: (value) => typeof value === "number" },
+    }),
+  );
+
+  const circuit = defineCircuit(
+    {
+      sessions: plug(cacheCircuit, {}, { inputs: { config: { ttl: 60 } } }),
+      queries: plug(cacheCircuit, {}, { inputs: { config: { ttl: 5 } } }),
+      $stats: {
+        leak: defineUnit(
+          (w: (key: string) => unknown) => () => w("sessions.config"),
+          {
+            is: "factory",
+          },
+        ),
+      },
+    },
+    {},
+  );
+
+  const app = wireUp(circuit);
+
+  assertEquals(app("sessions.client").ttl, 60);
+  assertEquals(app("queries.client").ttl, 5);
+  assertThrows(
+    () => app("stats").leak(),
+    Error,
+    'Block "sessions.config" not found from block "stats"',
+  );
+
+  assertThrows(
+    // @ts-expect-error ttl is a number
+    () => plug(cacheCircuit, {}, { inputs: { config: { ttl: "60" } } }),
+    InvalidInputsError,
+    'Invalid inputs: unit "config.ttl"',
+  );
+
+  // @ts-expect-error the host has to provide the config
+  defineCircuit({ sessions: plug(cacheCircuit, {}) }, {});
+});
+
+Deno.test("plug: unresolved adapters throw a PluginAdapterError", () => {
+  type W = (key: string) => { find: () => string };
+
+  const userCircuit = defineCircuit(
+    {
+      service: {
+        $: tagBlock(),
+        find: defineUnit((w: W) => () => w("repository").find(), {
+          is: "factory",
+        }),
+        log: defineUnit((w: W) => () => w("logger").find(), {
+          is: "factory",
+        }),
+      },
+    },
+    defineInputs<{
+      $repository: { find: () => string };
+      $logger: { find: () => string };
+    }>(),
+  );
+
+  const app = wireUp(
+    defineCircuit(
+      { user: plug(userCircuit, { repository: "database" } as never) },
+      {},
+    ),
+  );
+
+  const error = assertThrows(
+    () => app("user.service").find(),
+    PluginAdapterError,
+    'Input "repository" of plugin "user" points to unknown block "database"',
+  );
+  assertEquals(
+    [error.mount, error.input, error.adapted, error.target],
+    ["user", "repository", ["repository"], "database"],
+  );
+
+  assertThrows(
+    () => app("user.service").log(),
+    PluginAdapterError,
+    'Input "logger" of plugin "user" has no adapter and the host has no block "logger" (adapted inputs: "repository")',
+  );
+});
+
+Deno.test("plug: adapters can point to the inputs of the host", () => {
+  type W = (key: "repository") => { find: () => string };
+
+  const userCircuit = defineCircuit(
+    {
+      service: {
+        $: tagBlock(),
+        find: defineUnit((w: W) => () => w("repository").find(), {
+          is: "factory",
+        }),
+      },
+    },
+    defineInputs<{ $repository: { find: () => string } }>(),
+  );
+
+  const circuit = defineCircuit(
+    {
+      user: plug(userCircuit, { repository: "database" }),
+      admin: plug(userCircuit, {
+        repository: { find: "database.findAdmin" },
+      }),
+    },
+    defineInputs<{
+      database: { find: () => string; findAdmin: () => string };
+    }>(),
+  );
+
+  const inputs = {
+    database: { find: () => "john", findAdmin: () => "ann" },
+  };
+
+  assertEquals(validateCircuit(circuit, inputs), []);
+
+  const app = wireUp(circuit, inputs);
+
+  assertEquals(app("user.service").find(), "john");
+  assertEquals(app("admin.service").find(), "ann");
+});
+
+Deno.test("plug: adapters of nested plugins point to their parent", () => {
+  type W = (key: string) => { find: () => string };
+
+  const userCircuit = defineCircuit(
+    {
+      service: {
+        $: tagBlock(),
+        find: defineUnit((w: W) => () => w("repository").find(), {
+          is: "factory",
+        }),
+      },
+    },
+    defineInputs<{ $repository: { find: () => string } }>(),
+  );
+
+  const middleCircuit = defineCircuit(
+    {
+      store: { $: tagBlock(), find: () => "middle" },
+      users: plug(userCircuit, { repository: "store" }),
+      admins: plug(userCircuit, { repository: { find: "store.find" } }),
+      posts: plug(userCircuit, { repository: "source" }),
+    },
+    defineInputs<{ source: { find: () => string } }>(),
+  );
+
+  const circuit = defineCircuit(
+    {
+      store: { $: tagBlock(), find: () => "top" },
+      database: { $: tagBlock(), find: () => "database" },
+      middle: plug(middleCircuit, { source: "database" }),
+    },
+    {},
+  );
+
+  assertEquals(validateCircuit(circuit), []);
+
+  // the types of the blocks of nested plugins are not inferred
+  const app = wireUp(circuit) as unknown as W;
+
+  assertEquals(app("middle.users.service").find(), "middle");
+  assertEquals(app("middle.admins.service").find(), "middle");
+  assertEquals(app("middle.posts.service").find(), "database");
+});
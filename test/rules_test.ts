@@ -0,0 +1,66 @@
+import { assertEquals } from "@std/assert";
+
+import {
+  describeRule,
+  findViolatedRule,
+  matchesPattern,
+  mountRules,
+} from "../src/rules.ts";
+
+Deno.test("rules: matchesPattern", () => {
+  assertEquals(matchesPattern("domain", "domain"), true);
+  assertEquals(matchesPattern("domain.user.service", "domain"), true);
+  assertEquals(matchesPattern("domainx", "domain"), false);
+  assertEquals(matchesPattern("infra", "domain"), false);
+
+  assertEquals(matchesPattern("user.repo", "*.repo"), true);
+  assertEquals(matchesPattern("user.repo.cache", "*.repo"), true);
+  assertEquals(matchesPattern("repo", "*.repo"), false);
+  assertEquals(matchesPattern("app.user.repo", "*.repo"), false);
+
+  assertEquals(matchesPattern("app.user.repo", "**.repo"), true);
+  assertEquals(matchesPattern("repo", "**.repo"), true);
+  assertEquals(matchesPattern("app.user", "**.repo"), false);
+
+  assertEquals(matchesPattern("", "domain"), false);
+  assertEquals(matchesPattern("", "**"), true);
+});
+
+Deno.test("rules: findViolatedRule", () => {
+  const deny = { from: "domain", deny: "infra" };
+  const only = { to: "*.repo", only: "*.service" };
+  const rules = [deny, only];
+
+  assertEquals(findViolatedRule(rules, "domain.user", "infra.db"), deny);
+  assertEquals(findViolatedRule(rules, "infra.db", "domain.user"), undefined);
+
+  assertEquals(findViolatedRule(rules, "user.service", "post.repo"), undefined);
+  assertEquals(findViolatedRule(rules, "user.controller", "user.repo"), only);
+  assertEquals(findViolatedRule(rules, "user", "user.repo"), only);
+
+  assertEquals(
+    findViolatedRule(rules, "user.repo.cache", "user.repo"),
+    undefined,
+    "blocks can read the blocks they are nested in",
+  );
+  assertEquals(findViolatedRule(rules, "user.repo", "user.repo"), undefined);
+});
+
+Deno.test("rules: mountRules and describeRule", () => {
+  const rules = mountRules(
+    [
+      { from: "domain", deny: "infra" },
+      { to: "*.repo", only: "" },
+    ],
+    "shop",
+  );
+
+  assertEquals(rules, [
+    { from: "shop.domain", deny: "shop.infra" },
+    { to: "shop.*.repo", only: "shop" },
+  ]);
+  assertEquals(rules.map(describeRule), [
+    '"shop.domain" can\'t read "shop.infra"',
+    'only "shop" can read "shop.*.repo"',
+  ]);
+});
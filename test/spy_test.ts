@@ -0,0 +1,104 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+
+import { spyWire } from "../src/spy.ts";
+import { mockUnit } from "../src/mock.ts";
+import { defineUnit } from "../src/unit.ts";
+
+const fakeBlocks = {
+  "": { maxLength: 10 },
+  "post.repo": { posts: [] as { title: string; author: string }[] },
+  "user.service": {
+    getUser: (id: string) => {
+      if (!id) throw new Error("no id");
+      return { id, name: "john" };
+    },
+  },
+};
+
+type W = <K extends keyof typeof fakeBlocks>(k: K) => (typeof fakeBlocks)[K];
+
+const addPost = defineUnit(
+  function (this: W, title: string, authorId: string) {
+    const author = this("user.service").getUser(authorId);
+    this("post.repo").posts.push({ title, author: author.name });
+    return this("post.repo").posts.length;
+  },
+  { is: "bound" },
+);
+
+Deno.test("spyWire: records lookups and calls", () => {
+  const wire = spyWire(fakeBlocks);
+  const add = mockUnit(addPost, wire);
+
+  assertEquals(add("hello", "author-id"), 1);
+  assertEquals(wire.lookups, ["user.service", "post.repo", "post.repo"]);
+  assertEquals(wire.calls("user.service.getUser"), [
+    {
+      args: ["author-id"],
+      result: { id: "author-id", name: "john" },
+      threw: false,
+    },
+  ]);
+  assertEquals(wire("").maxLength, 10, "other units are returned as they are");
+
+  const error = assertThrows(() => add("hello", ""), Error, "no id");
+  assertEquals(wire.calls("user.service.getUser")[1], {
+    args: [""],
+    error,
+    threw: true,
+  });
+
+  wire.reset();
+  assertEquals(wire.lookups, []);
+  assertEquals(wire.calls("user.service.getUser"), []);
+});
+
+Deno.test("spyWire: assertion helpers", () => {
+  const wire = spyWire(fakeBlocks);
+  const add = mockUnit(addPost, wire);
+
+  add("hello", "author-id");
+
+  wire.assertLookedUp("post.repo");
+  wire.assertCalled("user.service.getUser");
+  wire.assertCalled("user.service.getUser", 1);
+  wire.assertCalledWith("user.service.getUser", "author-id");
+
+  assertThrows(
+    () => wire.assertLookedUp(""),
+    Error,
+    'Expected block "" to be looked up, lookups: ["user.service","post.repo","post.repo"]',
+  );
+  assertThrows(
+    () => wire.assertCalled("user.service.getUser", 2),
+    Error,
+    'Expected "user.service.getUser" to be called 2 time(s), it was called 1 time(s)',
+  );
+  assertThrows(
+    () => wire.assertCalled("user.service.other"),
+    Error,
+    'Expected "user.service.other" to be called, it was not called',
+  );
+  assertThrows(
+    () => wire.assertCalledWith("user.service.getUser", "other-id"),
+    Error,
+    'Expected "user.service.getUser" to be called with ["other-id"], calls: [["author-id"]]',
+  );
+});
+
+Deno.test("spyWire: records rejected promises as thrown errors", async () => {
+  const failure = new Error("not found");
+  const wire = spyWire({
+    "user.repo": {
+      find: (id: string) =>
+        id ? Promise.resolve({ id }) : Promise.reject(failure),
+    },
+  });
+
+  assertEquals(await wire("user.repo").find("1"), { id: "1" });
+  await assertRejects(() => wire("user.repo").find(""), Error, "not found");
+
+  const [resolved, rejected] = wire.calls("user.repo.find");
+  assertEquals(resolved.threw, false);
+  assertEquals(rejected, { args: [""], error: failure, threw: true });
+});
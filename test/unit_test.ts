@@ -1,4 +1,5 @@
 import { assertEquals, assertThrows } from "@std/assert";
+import { InvalidUnitDefinitionError } from "../src//errors.ts";
 import {
   defineUnit,
   isAsyncFactoryDef,
@@ -7,6 +8,8 @@ import {
   isBoundFunc,
   isFactoryDef,
   isFactoryFunc,
+  getUnitKind,
+  getUnitLifetime,
   isPrivate,
   isUnitDef,
 } from "../src//unit.ts";
@@ -69,6 +72,12 @@ Deno.test("unit: defineUnit", async () => {
     () => defineUnit(5, { is: "asyncFactory" }),
     "defineUnit throws on not function async factory unit",
   );
+  const error = assertThrows(
+    () => defineUnit("db", { is: "bound" }),
+    InvalidUnitDefinitionError,
+    "Wrong unit definition value",
+  );
+  assertEquals([error.kind, error.definition], ["bound", "db"]);
 });
 
 Deno.test("unit: isPrivate", () => {
@@ -275,3 +284,49 @@ Deno.test("unit: isUnitDef", () => {
   assertEquals(isUnitDef(factoFunc), false);
   assertEquals(isUnitDef(factoDef), true);
 });
+
+Deno.test("unit: getUnitLifetime", () => {
+  function factoFunc() {
+    return {};
+  }
+  factoFunc.is = "factory" as const;
+  factoFunc.lifetime = "transient" as const;
+
+  assertEquals(getUnitLifetime(5), "singleton");
+  assertEquals(getUnitLifetime(defineUnit(5)), "singleton");
+  assertEquals(getUnitLifetime(factoFunc), "transient");
+  assertEquals(
+    getUnitLifetime(defineUnit(() => ({}), { is: "factory" })),
+    "singleton",
+  );
+  assertEquals(
+    getUnitLifetime(
+      defineUnit(() => ({}), { is: "factory", lifetime: "scoped" }),
+    ),
+    "scoped",
+  );
+  assertEquals(
+    getUnitLifetime(
+      defineUnit(function () {}, { is: "bound", lifetime: "transient" }),
+    ),
+    "transient",
+  );
+});
+
+Deno.test("unit: getUnitKind", () => {
+  function boundFunc() {}
+  boundFunc.is = "bound" as const;
+
+  assertEquals(getUnitKind(5), "plain");
+  assertEquals(
+    getUnitKind(() => 5),
+    "plain",
+  );
+  assertEquals(getUnitKind(defineUnit(5)), "plain");
+  assertEquals(getUnitKind(boundFunc), "bound");
+  assertEquals(getUnitKind(defineUnit(() => 5, { is: "factory" })), "factory");
+  assertEquals(
+    getUnitKind(defineUnit(() => Promise.resolve(5), { is: "asyncFactory" })),
+    "asyncFactory",
+  );
+});
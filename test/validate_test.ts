@@ -0,0 +1,317 @@
+import { assertEquals } from "@std/assert";
+
+import {
+  defineCircuit,
+  defineInputs,
+  defineUnit,
+  plug,
+  tagBlock,
+  validateCircuit,
+} from "../src/wiremap.ts";
+
+const userCircuit = defineCircuit(
+  {
+    service: {
+      $: tagBlock(),
+      getUser: () => "user",
+    },
+  },
+  defineInputs<{ repository: { find: () => string } }>(),
+);
+
+Deno.test("validateCircuit: valid circuit has no problems", () => {
+  const circuit = defineCircuit(
+    {
+      database: {
+        $: tagBlock(),
+        repository: { find: () => "user" },
+      },
+      user: plug(userCircuit, { repository: "database" }),
+    },
+    {},
+  );
+
+  assertEquals(validateCircuit(circuit), []);
+  assertEquals(validateCircuit(circuit, {}), []);
+});
+
+Deno.test("validateCircuit: missing inputs", () => {
+  const circuit = defineCircuit(
+    {
+      service: {
+        $: tagBlock(),
+        run: defineUnit(() => "run", { is: "factory" }),
+      },
+    },
+    {
+      config: { port: 3000, host: "localhost" },
+      logger: { log: () => {} },
+    } as unknown as { config: { port: number; host: string } },
+  );
+
+  assertEquals(validateCircuit(circuit), [], "skipped without inputs");
+  assertEquals(validateCircuit(circuit, { config: { port: 80 } } as never), [
+    {
+      kind: "missingInput",
+      path: "config.host",
+      message: 'Input unit "host" of block "config" is not supplied',
+    },
+    {
+      kind: "missingInput",
+      path: "logger",
+      message: 'Input block "logger" is not supplied',
+    },
+  ]);
+});
+
+Deno.test("validateCircuit: invalid inputs", () => {
+  const circuit = defineCircuit(
+    { service: { $: tagBlock(), run: () => "run" } },
+    defineInputs({
+      $config: { port: (value) => Number.isInteger(value) },
+    }),
+  );
+
+  assertEquals(validateCircuit(circuit, { config: { port: "80" } } as never), [
+    {
+      kind: "invalidInput",
+      path: "config.port",
+      message: 'Input unit "port" of block "config" is not valid',
+    },
+  ]);
+  assertEquals(validateCircuit(circuit, { config: { port: 80 } } as never), []);
+});
+
+Deno.test("validateCircuit: invalid adapters", () => {
+  const circuit = defineCircuit(
+    {
+      database: {
+        $: tagBlock(),
+        find: () => "user",
+      },
+      user: plug(userCircuit, { repository: "db" } as never),
+      post: plug(userCircuit, {
+        repository: { find: "database.nope" },
+      } as never),
+      admin: plug(userCircuit, {
+        repository: { find: "database.find" },
+      } as never),
+    },
+    {},
+  );
+
+  assertEquals(validateCircuit(circuit), [
+    {
+      kind: "invalidAdapter",
+      path: "user",
+      message:
+        'Input "repository" of plugin "user" points to unknown block "db"',
+    },
+    {
+      kind: "invalidAdapter",
+      path: "post",
+      message:
+        'Unit "find" of input "repository" of plugin "post" points to unknown unit "database.nope"',
+    },
+  ]);
+
+  assertEquals(
+    validateCircuit(circuit, { db: { find: () => "user" } } as never).length,
+    1,
+    "inputs are valid adapter targets",
+  );
+});
+
+Deno.test("validateCircuit: nested plugin adapters", () => {
+  const middleCircuit = defineCircuit(
+    {
+      store: {
+        $: tagBlock(),
+        find: () => "user",
+      },
+      users: plug(userCircuit, { repository: "store" }),
+      posts: plug(userCircuit, { repository: "source" } as never),
+      other: plug(userCircuit, { repository: "missing" } as never),
+    },
+    defineInputs<{ source: { find: () => string } }>(),
+  );
+
+  const circuit = defineCircuit(
+    {
+      database: {
+        $: tagBlock(),
+        find: () => "user",
+      },
+      middle: plug(middleCircuit, { source: "database" }),
+    },
+    {},
+  );
+
+  assertEquals(validateCircuit(circuit), [
+    {
+      kind: "invalidAdapter",
+      path: "middle.other",
+      message:
+        'Input "repository" of plugin "middle.other" points to unknown block "missing"',
+    },
+  ]);
+});
+
+Deno.test("validateCircuit: adapters pointing to outputs", () => {
+  const libCircuit = defineCircuit(
+    { service: { $: tagBlock(), find: () => "user" } },
+    {},
+    { outputs: { api: "service" } },
+  );
+
+  const circuit = defineCircuit(
+    {
+      lib: plug(libCircuit),
+      user: plug(userCircuit, { repository: "lib.api" }),
+      post: plug(userCircuit, { repository: "lib.service" } as never),
+    },
+    {},
+  );
+
+  assertEquals(validateCircuit(circuit), [
+    {
+      kind: "invalidAdapter",
+      path: "post",
+      message:
+        'Input "repository" of plugin "post" points to unknown block "lib.service"',
+    },
+  ]);
+});
+
+Deno.test("validateCircuit: inputs without adapter", () => {
+  const reportCircuit = defineCircuit(
+    { report: { $: tagBlock(), build: () => "report" } },
+    defineInputs({
+      config: { port: true },
+      repository: { find: true },
+      source: { read: true },
+    }),
+  );
+
+  const circuit = defineCircuit(
+    {
+      repository: {
+        $: tagBlock(),
+        find: () => "user",
+      },
+      report: plug(reportCircuit, { source: "repository" } as never, {
+        inputs: { config: { port: 80 } },
+      }),
+      other: plug(reportCircuit, {} as never),
+    },
+    {},
+  );
+
+  assertEquals(validateCircuit(circuit), [
+    {
+      kind: "invalidAdapter",
+      path: "other",
+      message:
+        'Input "config" of plugin "other" has no adapter and the host has no block "config" (adapted inputs: none)',
+    },
+    {
+      kind: "invalidAdapter",
+      path: "other",
+      message:
+        'Input "source" of plugin "other" has no adapter and the host has no block "source" (adapted inputs: none)',
+    },
+  ]);
+});
+
+Deno.test("validateCircuit: adapters forbidden by access rules", () => {
+  const circuit = defineCircuit(
+    {
+      infra: { $: tagBlock(), find: () => "user" },
+      port: { $: tagBlock(), find: () => "user" },
+      domain: {
+        $: tagBlock(),
+        user: plug(userCircuit, { repository: "infra" }),
+        post: plug(userCircuit, { repository: "port" } as never),
+        admin: plug(userCircuit, { repository: { find: "infra.find" } }),
+      },
+    },
+    {},
+    { rules: [{ from: "domain", deny: "infra" }] },
+  );
+
+  assertEquals(validateCircuit(circuit), [
+    {
+      kind: "forbiddenAccess",
+      path: "domain.user",
+      message:
+        'Input "repository" of plugin "domain.user" points to block "infra", which the plugin can\'t read: "domain" can\'t read "infra"',
+    },
+    {
+      kind: "forbiddenAccess",
+      path: "domain.admin",
+      message:
+        'Input "repository" of plugin "domain.admin" points to block "infra", which the plugin can\'t read: "domain" can\'t read "infra"',
+    },
+  ]);
+});
+
+Deno.test("validateCircuit: empty blocks", () => {
+  const circuit = defineCircuit(
+    {
+      empty: { $: tagBlock() },
+      $group: {
+        nested: {
+          $: tagBlock(),
+          $deeper: {},
+        },
+      },
+      user: {
+        $: tagBlock(),
+        service: {
+          $: tagBlock(),
+          run: () => "run",
+        },
+      },
+    },
+    {},
+  );
+
+  assertEquals(validateCircuit(circuit), [
+    {
+      kind: "emptyBlock",
+      path: "empty",
+      message: 'Block "empty" has no units',
+    },
+    {
+      kind: "emptyBlock",
+      path: "group",
+      message: 'Block "group" has no units',
+    },
+  ]);
+});
+
+Deno.test("validateCircuit: key collisions", () => {
+  const circuit = defineCircuit(
+    {
+      user: {
+        $: tagBlock(),
+        service: {
+          $: tagBlock(),
+          run: () => "run",
+        },
+        $service: {
+          stop: () => "stop",
+        },
+      },
+    },
+    {},
+  );
+
+  assertEquals(validateCircuit(circuit), [
+    {
+      kind: "keyCollision",
+      path: "user.service",
+      message: 'Keys "service" and "$service" both resolve to "user.service"',
+    },
+  ]);
+});
@@ -1,10 +1,25 @@
-import { assertEquals, assertThrows } from "@std/assert";
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
 
 import {
+  defineBlock,
   tagBlock,
   wireUp,
   defineUnit,
   defineCircuit,
+  defineInputs,
+  AsyncResolutionError,
+  BlockNotFoundError,
+  CircularDependencyError,
+  DisposeError,
+  ForbiddenAccessError,
+  InvalidConcurrencyError,
+  InvalidInputsError,
+  InvalidOverrideError,
+  MissingInputsError,
+  OutOfScopeError,
+  UnitNotFoundError,
+  WiremapError,
+  plug,
 } from "../src//wiremap.ts";
 import type { InferWire } from "../src//wiremap.ts";
 
@@ -100,6 +115,378 @@ Deno.test("error handling for missing dependencies", () => {
   }
 });
 
+Deno.test("wireUp: missing blocks and units throw typed errors", () => {
+  const circuit = defineCircuit(
+    {
+      user: {
+        $: tagBlock(),
+        name: "john",
+        secret: defineUnit("1234", { isPrivate: true }),
+      },
+    },
+    {},
+  );
+  const app = wireUp(circuit);
+
+  const blockError = assertThrows(
+    // @ts-ignore: it's just for the internal test
+    () => app("post"),
+    BlockNotFoundError,
+  );
+  assertEquals(
+    [blockError.blockPath, blockError.requestedFrom, blockError.circuit],
+    ["post", "", ""],
+  );
+
+  const unitError = assertThrows(
+    // @ts-ignore: it's just for the internal test
+    () => app("user").secret,
+    UnitNotFoundError,
+    "Block 'user' has no unit named 'secret'",
+  );
+  assertEquals(
+    [
+      unitError.blockPath,
+      unitError.unitName,
+      unitError.requestedFrom,
+      unitError.circuit,
+    ],
+    ["user", "secret", "", ""],
+  );
+  assertEquals(unitError instanceof WiremapError, true);
+
+  const accountsCircuit = defineCircuit(
+    {
+      repo: { $: tagBlock(), find: () => "john" },
+      service: {
+        $: tagBlock(),
+        user: defineUnit(
+          (w: (key: string) => Record<string, () => string>) =>
+            w("repo").nope(),
+          { is: "factory" },
+        ),
+      },
+    },
+    {},
+  );
+  const accounts = wireUp(
+    defineCircuit({ accounts: plug(accountsCircuit, {}) }, {}),
+  ) as unknown as (key: string) => Record<string, unknown>;
+
+  const pluginError = assertThrows(
+    () => accounts("accounts.service").user,
+    UnitNotFoundError,
+    "Block 'accounts.repo' has no unit named 'nope'",
+  );
+  assertEquals(
+    [pluginError.requestedFrom, pluginError.circuit],
+    ["accounts.service", "accounts"],
+  );
+});
+
+Deno.test("wireUp checks the inputs declared with a schema", () => {
+  const circuit = defineCircuit(
+    {
+      service: {
+        $: tagBlock(),
+        run: () => "run",
+      },
+    },
+    defineInputs<{
+      $repo: { find: () => string; save: () => void };
+      $logger: { log: () => void };
+    }>({
+      $repo: { find: true, save: true },
+      $logger: { log: true },
+    }),
+  );
+
+  const error = assertThrows(
+    () => wireUp(circuit, { repo: { find: () => "one" } } as never),
+    MissingInputsError,
+    'Missing inputs: unit "repo.save", block "logger"',
+  );
+  assertEquals(error.missing, [
+    { block: "repo", unit: "save" },
+    { block: "logger" },
+  ]);
+
+  const app = wireUp(circuit, {
+    repo: { find: () => "one", save: () => {} },
+    logger: { log: () => {} },
+  });
+  assertEquals(app("repo").find(), "one");
+});
+
+Deno.test("wireUp checks the inputs with their validators", () => {
+  const isString = (value: unknown): value is string =>
+    typeof value === "string";
+  const isPort = (value: unknown) => Number.isInteger(value);
+
+  const circuit = defineCircuit(
+    {
+      service: {
+        $: tagBlock(),
+        run: () => "run",
+      },
+    },
+    defineInputs({
+      apiKey: isString,
+      $config: { dbUrl: isString, port: isPort },
+    }),
+  );
+
+  const error = assertThrows(
+    () =>
+      wireUp(circuit, {
+        apiKey: 42,
+        config: { dbUrl: "db://localhost", port: "80" },
+      } as never),
+    InvalidInputsError,
+    'Invalid inputs: unit "config.port", unit "apiKey"',
+  );
+  assertEquals(error.invalid, [
+    { block: "config", unit: "port" },
+    { block: "", unit: "apiKey" },
+  ]);
+
+  assertThrows(
+    () => wireUp(circuit, { apiKey: "secret" } as never),
+    MissingInputsError,
+    'Missing inputs: block "config"',
+  );
+
+  const app = wireUp(circuit, {
+    apiKey: "secret",
+    config: { dbUrl: "db://localhost", port: 80 },
+  } as never) as (key: string) => Record<string, unknown>;
+  assertEquals(app("config").port, 80);
+});
+
+Deno.test("wireUp: unit lifetimes", async () => {
+  type W = InferWire<Defs, "">;
+  let count = 0;
+  const disposed: string[] = [];
+
+  function nextId() {
+    return ++count;
+  }
+  nextId.is = "factory" as const;
+  nextId.lifetime = "transient" as const;
+
+  const circuit = defineCircuit(
+    {
+      nextId,
+      builder: defineUnit(() => ({ parts: [] as string[] }), {
+        is: "factory",
+        lifetime: "transient",
+        dispose: () => disposed.push("builder"),
+      }),
+      logger: defineUnit(() => ({ lines: [] as string[] }), {
+        is: "factory",
+        lifetime: "scoped",
+        dispose: () => disposed.push("logger"),
+      }),
+      service: defineUnit((w: W) => ({ id: w().nextId }), { is: "factory" }),
+    },
+    {},
+  );
+  type Defs = typeof circuit;
+
+  const app = wireUp(circuit);
+
+  assertEquals(app().nextId, 1);
+  assertEquals(app().nextId, 2, "transient units are created on each access");
+  assertEquals(app().builder === app().builder, false);
+  assertEquals(app().service.id, 3);
+  assertEquals(app().service.id, 3, "singletons keep their transient deps");
+
+  const scope = app.createScope();
+  assertEquals(scope().logger, scope().logger, "scoped units are cached");
+
+  await scope.dispose();
+  await app.shutdown();
+  assertEquals(disposed, ["logger"], "transient units are not disposed");
+});
+
+Deno.test("wireUp: scopes", async () => {
+  type W = InferWire<Defs, "">;
+  const disposed: string[] = [];
+  let connections = 0;
+
+  const circuit = defineCircuit(
+    {
+      db: defineUnit(() => ({ id: ++connections }), { is: "factory" }),
+      currentUser: defineUnit(() => "anonymous", {
+        is: "factory",
+        lifetime: "scoped",
+      }),
+      logger: defineUnit(
+        (w: W) => ({ user: w().currentUser, lines: [] as string[] }),
+        {
+          is: "factory",
+          lifetime: "scoped",
+          dispose: (logger: { user: string }) => disposed.push(logger.user),
+        },
+      ),
+      // singletons can't capture the units of a scope
+      audit: defineUnit((w: W) => ({ user: w().currentUser, db: w().db }), {
+        is: "factory",
+      }),
+      report: defineUnit(
+        function (this: W) {
+          return `report of ${this().currentUser}`;
+        },
+        { is: "bound" },
+      ),
+    },
+    {},
+  );
+  type Defs = typeof circuit;
+
+  const app = wireUp(circuit);
+  const john = app.createScope({ "": { currentUser: "john" } });
+  const jane = app.createScope({ "": { currentUser: "jane" } });
+
+  assertEquals(john().logger.user, "john");
+  assertEquals(jane().logger.user, "jane");
+  assertEquals(john().logger, john().logger, "scoped units are cached");
+  assertEquals(john().logger === jane().logger, false);
+  assertEquals(john().db === jane().db, true, "singletons are shared");
+  assertEquals(john().db, app().db);
+  assertEquals(connections, 1);
+
+  const captive = assertThrows(
+    () => jane().audit,
+    OutOfScopeError,
+    'Scoped unit "currentUser" was read out of a scope by unit "audit", units created by the app can\'t capture the units of a scope',
+  );
+  assertEquals([captive.unitPath, captive.readBy], ["currentUser", "audit"]);
+
+  const outOfScope = assertThrows(
+    () => app().logger,
+    OutOfScopeError,
+    'Scoped unit "logger" was read out of a scope, read it from a scope created with app.createScope()',
+  );
+  assertEquals([outOfScope.unitPath, outOfScope.readBy], ["logger", undefined]);
+
+  assertThrows(
+    () => jane().report(),
+    OutOfScopeError,
+    'Scoped unit "currentUser" was read out of a scope by a singleton, singletons can\'t read the units of a scope',
+  );
+
+  await john.dispose();
+  assertEquals(disposed, ["john"]);
+  await jane.dispose();
+  await app.shutdown();
+  assertEquals(disposed, ["john", "jane"]);
+
+  assertThrows(
+    () => app.createScope({ "": { nope: 1 } } as never),
+    InvalidOverrideError,
+    'Override "nope" doesn\'t match any unit',
+  );
+});
+
+Deno.test("wireUp: overrides", async () => {
+  type RepoW = InferWire<Defs, "user.repo">;
+  type ServiceW = InferWire<Defs, "user.service">;
+
+  const circuit = defineCircuit(
+    {
+      db: defineUnit(() => Promise.resolve({ users: ["real"] }), {
+        is: "asyncFactory",
+      }),
+      user: {
+        $: tagBlock(),
+        repo: {
+          $: tagBlock(),
+          data: defineUnit((w: RepoW) => w("").db.users, { is: "factory" }),
+          source: "database",
+        },
+        service: {
+          $: tagBlock(),
+          list: defineUnit((w: ServiceW) => () => w("user.repo").data, {
+            is: "factory",
+          }),
+        },
+      },
+    },
+    {},
+  );
+  type Defs = typeof circuit;
+
+  const app = await wireUp(
+    circuit,
+    {},
+    {
+      overrides: {
+        "user.repo": {
+          data: defineUnit((w: RepoW) => [`fake ${w(".").source}`], {
+            is: "factory",
+          }),
+        },
+      },
+    },
+  );
+
+  assertEquals(app("user.service").list(), ["fake database"]);
+  assertEquals(app().db.users, ["real"], "other units are wired for real");
+
+  const withFakeDb = await wireUp(
+    circuit,
+    {},
+    {
+      overrides: {
+        "": {
+          db: defineUnit(() => Promise.resolve({ users: ["fake"] }), {
+            is: "asyncFactory",
+          }),
+        },
+      },
+    },
+  );
+  assertEquals(withFakeDb("user.service").list(), ["fake"]);
+
+  const withValue = await wireUp(
+    circuit,
+    {},
+    { overrides: { "": { db: { users: ["value"] } } } },
+  );
+  assertEquals(withValue("user.service").list(), ["value"]);
+
+  const unknown = assertThrows(
+    () =>
+      wireUp(circuit, {}, { overrides: { "user.repo": { nope: 1 } } as never }),
+    InvalidOverrideError,
+    'Override "user.repo.nope" doesn\'t match any unit',
+  );
+  assertEquals(
+    [unknown.unitPath, unknown.problem],
+    ["user.repo.nope", "unknownUnit"],
+  );
+  const asyncOverride = assertThrows(
+    () =>
+      wireUp(
+        circuit,
+        {},
+        {
+          overrides: {
+            "user.repo": {
+              data: defineUnit(() => Promise.resolve([]), {
+                is: "asyncFactory",
+              }),
+            },
+          },
+        },
+      ),
+    InvalidOverrideError,
+    'Override "user.repo.data" can\'t be an async factory',
+  );
+  assertEquals(asyncOverride.problem, "asyncFactory");
+});
+
 Deno.test("wireUp protects private units", () => {
   type Wa = InferWire<Defs, "A">;
   type Wb = InferWire<Defs, "B">;
@@ -351,3 +738,682 @@ Deno.test("defineUnit: isAsync", async () => {
   assertEquals(main("a.b").deepFactory(), "rootvalue-avalue-bvalue");
   assertEquals(main("a.b").deepFactory2(), "rootvalue-avalue-bvalue");
 });
+
+Deno.test(
+  "wireUp: shutdown disposes units in reverse creation order",
+  async () => {
+    const disposed: string[] = [];
+    type W = InferWire<Defs, "">;
+
+    const circuit = defineCircuit(
+      {
+        db: defineUnit(
+          async () => {
+            await new Promise((res) => res(true));
+            return { name: "db" };
+          },
+          {
+            is: "asyncFactory",
+            dispose: (db: { name: string }) => disposed.push(db.name),
+          },
+        ),
+        repo: defineUnit(
+          (w: W) => ({
+            name: `repo(${w().db.name})`,
+            [Symbol.dispose]: () => disposed.push("repo"),
+          }),
+          { is: "factory" },
+        ),
+        service: defineUnit(
+          (w: W) => ({
+            repo: w().repo,
+            [Symbol.asyncDispose]: async () => {
+              await new Promise((res) => res(true));
+              disposed.push("service");
+            },
+          }),
+          { is: "factory" },
+        ),
+        notCreated: defineUnit(() => ({}), {
+          is: "factory",
+          dispose: () => disposed.push("notCreated"),
+        }),
+      },
+      {},
+    );
+    type Defs = typeof circuit;
+
+    const app = await wireUp(circuit);
+    assertEquals(app().service.repo.name, "repo(db)");
+
+    await app.shutdown();
+    assertEquals(disposed, ["service", "repo", "db"]);
+
+    await app.shutdown();
+    assertEquals(disposed, ["service", "repo", "db"], "shutdown runs once");
+  },
+);
+
+Deno.test("wireUp: shutdown clears the created units", async () => {
+  let connections = 0;
+
+  const circuit = defineCircuit(
+    {
+      db: defineUnit(() => ({ id: ++connections }), {
+        is: "factory",
+        dispose: () => {},
+      }),
+    },
+    {},
+  );
+
+  const app = wireUp(circuit);
+  const db = app().db;
+
+  await app.shutdown();
+  assertEquals(app().db === db, false, "disposed units are not read again");
+  assertEquals(app().db.id, 2);
+});
+
+Deno.test("wireUp: a rejected wireUp disposes the created units", async () => {
+  const disposed: string[] = [];
+
+  const circuit = defineCircuit(
+    {
+      db: defineUnit(() => Promise.resolve("db"), {
+        is: "asyncFactory",
+        dispose: () => disposed.push("db"),
+      }),
+      cache: defineUnit(() => Promise.reject(new Error("no cache")), {
+        is: "asyncFactory",
+        dependsOn: { "": ["db"] },
+        dispose: () => disposed.push("cache"),
+      }),
+    },
+    {},
+  );
+
+  await assertRejects(
+    () => wireUp(circuit),
+    AsyncResolutionError,
+    'Async factory "cache" failed',
+  );
+  assertEquals(disposed, ["db"]);
+});
+
+Deno.test("wireUp: shutdown collects every disposal error", async () => {
+  const disposed: string[] = [];
+
+  function a() {
+    return "a";
+  }
+  a.is = "factory" as const;
+  a.dispose = () => {
+    disposed.push("a");
+    throw new Error("a failed");
+  };
+
+  const circuit = defineCircuit(
+    {
+      a,
+      b: defineUnit(() => "b", {
+        is: "factory",
+        dispose: () => {
+          disposed.push("b");
+          return Promise.reject(new Error("b failed"));
+        },
+      }),
+      c: defineUnit(() => "c", {
+        is: "factory",
+        dispose: () => disposed.push("c"),
+      }),
+    },
+    {},
+  );
+
+  const app = wireUp(circuit);
+  assertEquals([app().a, app().b, app().c], ["a", "b", "c"]);
+
+  const error = await app.shutdown().catch((e) => e);
+
+  assertEquals(disposed, ["c", "b", "a"]);
+  assertEquals(error instanceof DisposeError, true);
+  assertEquals(
+    (error as DisposeError).errors.map((e) => (e as Error).message),
+    ["b failed", "a failed"],
+  );
+});
+
+Deno.test("wireUp: the app is async disposable", async () => {
+  const disposed: string[] = [];
+  const circuit = defineCircuit(
+    {
+      a: defineUnit(() => "a", {
+        is: "factory",
+        dispose: (value: string) => disposed.push(value),
+      }),
+    },
+    {},
+  );
+
+  const app = wireUp(circuit) as unknown as AsyncDisposable & {
+    (): { a: string };
+  };
+  assertEquals(app().a, "a");
+
+  await app[Symbol.asyncDispose]();
+  assertEquals(disposed, ["a"]);
+});
+
+Deno.test("wireUp: async factories start concurrently", async () => {
+  const events: string[] = [];
+
+  function slowUnit(name: string) {
+    return defineUnit(
+      async () => {
+        events.push(`start ${name}`);
+        await new Promise((res) => setTimeout(res, 10));
+        events.push(`end ${name}`);
+        return name;
+      },
+      { is: "asyncFactory" },
+    );
+  }
+
+  const circuit = defineCircuit(
+    {
+      a: slowUnit("a"),
+      b: slowUnit("b"),
+    },
+    {},
+  );
+
+  const app = await wireUp(circuit);
+  assertEquals([app().a, app().b], ["a", "b"]);
+  assertEquals(events, ["start a", "start b", "end a", "end b"]);
+
+  events.length = 0;
+  await wireUp(circuit, {}, { concurrency: 1 });
+  assertEquals(events, ["start a", "end a", "start b", "end b"]);
+});
+
+Deno.test(
+  "wireUp: async factories wait for the async units they depend on",
+  async () => {
+    type W = InferWire<Defs, "">;
+    const events: string[] = [];
+
+    const circuit = defineCircuit(
+      {
+        // declared before its dependency
+        repo: defineUnit(
+          async (w: W) => {
+            events.push("start repo");
+            await new Promise((res) => setTimeout(res, 5));
+            // read after an await, the factory runs once
+            return { db: w().db };
+          },
+          { is: "asyncFactory", dependsOn: { "": ["db"] } },
+        ),
+        logger: defineUnit(
+          async () => {
+            events.push("start logger");
+            await new Promise((res) => setTimeout(res, 5));
+            return "logger";
+          },
+          { is: "asyncFactory" },
+        ),
+        db: defineUnit(
+          async () => {
+            events.push("start db");
+            await new Promise((res) => setTimeout(res, 20));
+            return { url: "db://localhost" };
+          },
+          { is: "asyncFactory" },
+        ),
+      },
+      {},
+    );
+    type Defs = typeof circuit;
+
+    const app = await wireUp(circuit);
+
+    assertEquals(app().repo.db, { url: "db://localhost" });
+    assertEquals(app().repo.db, app().db);
+    assertEquals(events, ["start logger", "start db", "start repo"]);
+  },
+);
+
+Deno.test(
+  "wireUp: async factories reading unresolved async units run again",
+  async () => {
+    type W = InferWire<Defs, "">;
+    const events: string[] = [];
+
+    const circuit = defineCircuit(
+      {
+        // declared before its dependency
+        repo: defineUnit(
+          (w: W) => {
+            events.push("start repo");
+            return Promise.resolve({ db: w().db });
+          },
+          { is: "asyncFactory" },
+        ),
+        cache: defineUnit(
+          (w: W) => {
+            events.push("start cache");
+            try {
+              return Promise.resolve({ db: w().db });
+            } catch {
+              return Promise.resolve({ db: { url: "fallback" } });
+            }
+          },
+          {
+            is: "asyncFactory",
+            dispose: (cache: { db: { url: string } }) =>
+              events.push(`dispose ${cache.db.url}`),
+          },
+        ),
+        service: defineUnit(
+          async (w: W) => {
+            events.push("start service");
+            await new Promise((res) => setTimeout(res, 1));
+            // read after an await
+            return { db: w().db };
+          },
+          { is: "asyncFactory" },
+        ),
+        db: defineUnit(
+          async () => {
+            await new Promise((res) => setTimeout(res, 5));
+            return { url: "db://localhost" };
+          },
+          { is: "asyncFactory" },
+        ),
+      },
+      {},
+    );
+    type Defs = typeof circuit;
+
+    const app = await wireUp(circuit);
+
+    assertEquals(app().repo.db, { url: "db://localhost" });
+    assertEquals(app().cache.db, app().db, "caught reads run again too");
+    assertEquals(app().service.db, app().db);
+    assertEquals(events, [
+      "start repo",
+      "start cache",
+      "start service",
+      "dispose fallback",
+      "start repo",
+      "start cache",
+      "start service",
+    ]);
+  },
+);
+
+Deno.test("wireUp: async factory failures reject wireUp", async () => {
+  type W = InferWire<Defs, "">;
+
+  const circuit = defineCircuit(
+    {
+      db: defineUnit(
+        async () => {
+          await new Promise((res) => setTimeout(res, 5));
+          throw new Error("connection refused");
+        },
+        { is: "asyncFactory" },
+      ),
+      repo: defineUnit((w: W) => Promise.resolve({ db: w().db }), {
+        is: "asyncFactory",
+        dependsOn: { "": ["db"] },
+      }),
+    },
+    {},
+  );
+  type Defs = typeof circuit;
+
+  const error = await assertRejects(
+    () => wireUp(circuit),
+    AsyncResolutionError,
+    "connection refused",
+  );
+  assertEquals(error.message, 'Async factory "db" failed: connection refused');
+  assertEquals(error.unitPath, "db");
+  assertEquals((error.reason as Error).message, "connection refused");
+
+  await assertRejects(
+    () => wireUp(circuit, {}, { concurrency: 0 }),
+    InvalidConcurrencyError,
+    "Wrong concurrency value: 0",
+  );
+});
+
+Deno.test(
+  "wireUp: async factories read through sync units get resolved values",
+  async () => {
+    type W = InferWire<Defs, "">;
+
+    const circuit = defineCircuit(
+      {
+        service: defineUnit((w: W) => Promise.resolve({ repo: w().repo }), {
+          is: "asyncFactory",
+        }),
+        repo: defineUnit((w: W) => ({ db: w().db }), { is: "factory" }),
+        db: defineUnit(
+          async () => {
+            await new Promise((res) => setTimeout(res, 5));
+            return { url: "db://localhost" };
+          },
+          { is: "asyncFactory" },
+        ),
+      },
+      {},
+    );
+    type Defs = typeof circuit;
+
+    const app = await wireUp(circuit);
+
+    assertEquals(app().service.repo.db, { url: "db://localhost" });
+    assertEquals(app().service.repo, app().repo, "sync units are created once");
+  },
+);
+
+Deno.test("wireUp: async factories fail on dependency cycles", async () => {
+  type W = InferWire<Defs, "">;
+
+  const circuit = defineCircuit(
+    {
+      a: defineUnit(
+        (w: W): Promise<{ b: unknown }> => Promise.resolve({ b: w().b }),
+        { is: "asyncFactory" },
+      ),
+      b: defineUnit(
+        (w: W): Promise<{ c: unknown }> => Promise.resolve({ c: w().c }),
+        { is: "asyncFactory" },
+      ),
+      c: defineUnit(
+        (w: W): Promise<{ a: unknown }> => Promise.resolve({ a: w().a }),
+        { is: "asyncFactory" },
+      ),
+    },
+    {},
+  );
+  type Defs = typeof circuit;
+
+  const error = await assertRejects(
+    () => wireUp(circuit),
+    CircularDependencyError,
+    "Circular dependency detected: c -> a -> b -> c",
+  );
+  assertEquals(error.chain, ["c", "a", "b", "c"]);
+});
+
+Deno.test("wireUp: sync dependency cycles report the unit chain", () => {
+  type UserW = InferWire<Defs, "user.service">;
+  type PostW = InferWire<Defs, "post.service">;
+
+  const circuit = defineCircuit(
+    {
+      user: {
+        $: tagBlock(),
+        service: {
+          $: tagBlock(),
+          addUser: defineUnit(
+            (w: UserW): { list: unknown } => ({ list: w("post.service").list }),
+            { is: "factory" },
+          ),
+        },
+      },
+      post: {
+        $: tagBlock(),
+        service: {
+          $: tagBlock(),
+          list: defineUnit(
+            (w: PostW): { addUser: unknown } => ({
+              addUser: w("user.service").addUser,
+            }),
+            { is: "factory" },
+          ),
+        },
+      },
+    },
+    {},
+  );
+  type Defs = typeof circuit;
+
+  const app = wireUp(circuit);
+  const error = assertThrows(
+    () => app("user.service").addUser,
+    CircularDependencyError,
+    "Circular dependency detected: user.service.addUser -> post.service.list -> user.service.addUser",
+  );
+  assertEquals(error.chain, [
+    "user.service.addUser",
+    "post.service.list",
+    "user.service.addUser",
+  ]);
+
+  // the failed construction leaves no unit marked as in progress
+  assertThrows(
+    () => app("post.service").list,
+    CircularDependencyError,
+    "post.service.list -> user.service.addUser -> post.service.list",
+  );
+});
+
+Deno.test(
+  "wireUp: async dependency cycles through sync units report every unit",
+  async () => {
+    type W = InferWire<Defs, "">;
+
+    const circuit = defineCircuit(
+      {
+        a: defineUnit((w: W): Promise<unknown> => Promise.resolve(w().repo), {
+          is: "asyncFactory",
+        }),
+        repo: defineUnit((w: W): { a: unknown } => ({ a: w().a }), {
+          is: "factory",
+        }),
+      },
+      {},
+    );
+    type Defs = typeof circuit;
+
+    await assertRejects(
+      () => wireUp(circuit),
+      CircularDependencyError,
+      "Circular dependency detected: a -> repo -> a",
+    );
+  },
+);
+
+Deno.test("wireUp: access rules forbid reading blocks", () => {
+  type W = (key: string) => Record<string, string>;
+
+  const storeCircuit = defineCircuit(
+    {
+      store: {
+        $: tagBlock(),
+        read: defineUnit((w: W) => w("source").data, { is: "factory" }),
+      },
+    },
+    defineInputs<{ source: { data: string } }>(),
+  );
+
+  const circuit = defineCircuit(
+    {
+      infra: { $: tagBlock(), db: "rows", data: "rows" },
+      domain: {
+        $: tagBlock(),
+        direct: defineUnit((w: W) => w("infra").db, { is: "factory" }),
+        local: defineUnit((w: W) => w(".").direct, { is: "factory" }),
+      },
+      port: { $: tagBlock(), data: "port rows" },
+      cache: plug(storeCircuit, { source: "infra" }),
+      clean: plug(storeCircuit, { source: "port" }),
+    },
+    {},
+    {
+      rules: [
+        { from: "domain", deny: "infra" },
+        { to: "infra", only: "port" },
+      ],
+    },
+  );
+
+  const app = wireUp(circuit);
+
+  const error = assertThrows(
+    () => app("domain").direct,
+    ForbiddenAccessError,
+    'Block "domain" can\'t read block "infra": "domain" can\'t read "infra"',
+  );
+  assertEquals(error.from, "domain");
+  assertEquals(error.to, "infra");
+
+  assertThrows(
+    () => app("cache.store").read,
+    ForbiddenAccessError,
+    'Block "cache.store" can\'t read block "infra": only "port" can read "infra"',
+  );
+  assertEquals(app("clean.store").read, "port rows");
+  assertEquals(app("infra").db, "rows", "the app reads every block");
+});
+
+Deno.test(
+  "wireUp: private blocks are only read from their parent block",
+  () => {
+    type W = (key: string) => Record<string, () => string>;
+
+    const circuit = defineCircuit(
+      {
+        user: {
+          $: tagBlock(),
+          repo: defineBlock({ find: () => "john" }, { isPrivate: true }),
+          service: {
+            $: tagBlock(),
+            getUser: defineUnit(
+              function (this: W) {
+                return this("user.repo").find();
+              },
+              { is: "bound" },
+            ),
+          },
+        },
+        post: {
+          $: tagBlock(),
+          getAuthor: defineUnit(
+            function (this: W) {
+              return this("user.repo").find();
+            },
+            { is: "bound" },
+          ),
+        },
+      },
+      {},
+    );
+
+    const app = wireUp(circuit);
+
+    assertEquals(app("user.service").getUser(), "john");
+    assertThrows(
+      () => app("post").getAuthor(),
+      ForbiddenAccessError,
+      'Block "post" can\'t read block "user.repo": only "user" can read "user.repo"',
+    );
+    assertEquals(
+      (app as unknown as W)("user.repo").find(),
+      "john",
+      "the app reads every block",
+    );
+
+    const _types = (
+      user: InferWire<typeof circuit, "user.service">,
+      post: InferWire<typeof circuit, "post">,
+    ) => {
+      user("user.repo").find();
+      // @ts-expect-error private to the user block
+      post("user.repo");
+    };
+  },
+);
+
+Deno.test("wireUp: relative block paths", () => {
+  type W = (key: string) => Record<string, () => string>;
+
+  const userCircuit = defineCircuit(
+    {
+      user: {
+        $: tagBlock(),
+        name: () => "john",
+        repo: defineBlock({ find: () => "row" }, { isPrivate: true }),
+        service: {
+          $: tagBlock(),
+          find: defineUnit(
+            function (this: W) {
+              return `${this("..").name()}:${this("../repo").find()}`;
+            },
+            { is: "bound" },
+          ),
+          cache: { $: tagBlock(), get: () => "cached" },
+          cached: defineUnit(
+            function (this: W) {
+              return this("./cache").get();
+            },
+            { is: "bound" },
+          ),
+          above: defineUnit(
+            function (this: W) {
+              return this("../../..").name();
+            },
+            { is: "bound" },
+          ),
+        },
+      },
+    },
+    {},
+  );
+
+  const circuit = defineCircuit(
+    {
+      post: {
+        $: tagBlock(),
+        author: defineUnit(
+          function (this: W) {
+            return this("../accounts/user.service").find();
+          },
+          { is: "bound" },
+        ),
+      },
+      accounts: plug(userCircuit, {}),
+    },
+    {},
+  );
+
+  const app = wireUp(circuit) as unknown as W;
+
+  assertEquals(app("post").author(), "john:row");
+  assertEquals(
+    app("accounts.user.service").find(),
+    "john:row",
+    "relative to the plugged circuit",
+  );
+  assertEquals(app("accounts.user.service").cached(), "cached");
+  assertThrows(
+    () => app("accounts.user.service").above(),
+    Error,
+    'Block "../../.." not found from block "accounts.user.service"',
+  );
+
+  const _types = (wire: InferWire<typeof userCircuit, "user.service">) => {
+    wire("..").name();
+    wire("../repo").find();
+    wire("./cache").get();
+    // @ts-expect-error not a block
+    wire("../nope");
+    // @ts-expect-error not a child block
+    wire("./repo");
+  };
+});